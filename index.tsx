@@ -1,40 +1,46 @@
 
-import React, { useState, useEffect, useRef, FormEvent, ChangeEvent } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef, useCallback, FormEvent, ChangeEvent, ClipboardEvent, DragEvent } from 'react';
 import { createRoot } from 'react-dom/client';
-import { createChat } from './services/geminiService';
-import { Chat as GeminiChat, Part } from '@google/genai';
-import type { ChatMessage } from './types';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { countTokens, createChat } from './services/chatService';
+import type { ChatSession } from './services/chatProvider';
+import { AVAILABLE_MODELS, DEFAULT_CHAT_SETTINGS } from './services/chatProvider';
+import type { ChatContent, ChatPart, FunctionCall, UsageData } from './services/chatProvider';
+import type { AttachmentKind, AttachmentRef, ChatMessage, ChatSettings, ContextSummary, Conversation, MessageUsage, Persona, PromptTemplate, SafetyRating, ToolCallRecord } from './types';
 import { auth } from './services/firebase';
+import { authErrorMessage, changePassword, claimGuestData, continueAsGuest, deleteAccount, isPasswordUser, needsEmailVerification, refreshVerification, resendVerificationEmail, sendPasswordReset, signInWithEmail, signInWithGoogle, signUpWithEmail } from './services/authService';
+import { createConversation, generateId, generateTitle, loadConversations, saveConversations, sortConversations } from './services/conversationStore';
+import { DEFAULT_PERSONA_ID, findPersona, loadPersonas, savePersonas } from './services/personaStore';
+import { appendMessage, createMessage, getSiblings, getThread, groupSiblings, selectBranch, updateMessage } from './services/messageTree';
+import { blobToBase64, deleteConversationAttachments, formatBytes, getAttachment, pruneOrphanedAttachments, saveAttachment } from './services/attachmentStore';
+import { createConversationSync } from './services/conversationSync';
+import type { ConversationSync } from './services/conversationSync';
+import { createSearchIndex } from './services/searchIndex';
+import type { SearchFilters, SearchResult } from './services/searchIndex';
+import { exportFileName, importConversation, parseConversationJson, toHtml, toJson, toMarkdown } from './services/conversationExport';
+import { ACCEPTED_FILE_TYPES, formatTextAttachment, validateFiles } from './services/fileAttachments';
+import { BUILT_IN_TOOLS, MAX_TOOL_ROUNDS, findTool, getEnabledTools, runTool } from './services/tools';
+import type { ToolContext } from './services/tools';
+import { DEFAULT_SUMMARIZE_AT_TOKENS, findActiveSummary, formatTokenCount, summarizeThread, summaryToContents } from './services/contextManager';
+import { createSpeechRecognition, createVoiceRecognizer, isRecognitionSupported, isSynthesisSupported, listVoices, loadVoiceSettings, saveVoiceSettings, speak, stopSpeaking } from './services/speech';
+import type { SpeechRecognition, VoiceRecognizer, VoiceSettings } from './services/speech';
+import { MAX_AUTO_RETRIES, classifyError, describeFinishReason, emptyReplyError, formatRatingLabel, isTruncated, notableRatings, retryDelayMs } from './services/chatErrors';
+import type { ChatError, ChatErrorKind } from './services/chatErrors';
+import { TemplateImportError, fillTemplate, loadPromptTemplates, mergeTemplates, normalizeCommand, parseTemplatesJson, savePromptTemplates, templateVariables, templatesToJson } from './services/promptTemplates';
+import { findModel, isReservedCommand, parseSlashCommand, suggestCommands } from './services/slashCommands';
+import type { CommandSuggestion, SlashCommand } from './services/slashCommands';
+import { DEFAULT_PRICES, DELETED_CONVERSATIONS_KEY, formatCost, loadUsageLog, loadUsageSettings, monthToDateCost, recordUsage, saveUsageSettings, startOfMonth, summarizeUsage } from './services/usageStats';
+import type { ModelPrice, UsageLogEntry, UsageSettings, UsageTotals } from './services/usageStats';
 import firebase from 'firebase/compat/app';
 
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
 
 
-// --- LocalStorage DB Helpers (keyed by UID) ---
-const saveChatHistory = (uid: string, messages: ChatMessage[]) => {
-    try {
-        const storableHistory = messages.map(msg =>
-            msg.imageUrl?.startsWith('blob:') ? { ...msg, imageUrl: '' } : msg
-        );
-        localStorage.setItem(`gemini-chat-history-${uid}`, JSON.stringify(storableHistory));
-    } catch (e) {
-        console.error("Failed to save chat history:", e);
-    }
-};
-
-const loadChatHistory = (uid: string): ChatMessage[] => {
-    try {
-        const storedHistory = localStorage.getItem(`gemini-chat-history-${uid}`);
-        return storedHistory ? JSON.parse(storedHistory) : [];
-    } catch (e) {
-        console.error("Failed to load chat history:", e);
-        return [];
-    }
-};
-
 // --- Helper Icons ---
 const SendIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-6 h-6"><path d="M3.478 2.405a.75.75 0 00-.926.94l2.432 7.905H13.5a.75.75 0 010 1.5H4.984l-2.432 7.905a.75.75 0 00.926.94 60.519 60.519 0 0018.445-8.986.75.75 0 000-1.218A60.517 60.517 0 003.478 2.405z" /></svg>;
 const LogoutIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6"><path strokeLinecap="round" strokeLinejoin="round" d="M15.75 9V5.25A2.25 2.25 0 0013.5 3h-6a2.25 2.25 0 00-2.25 2.25v13.5A2.25 2.25 0 007.5 21h6a2.25 2.25 0 002.25-2.25V15m3 0l3-3m0 0l-3-3m3 3H9" /></svg>;
@@ -43,158 +49,1721 @@ const XCircleIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" view
 const Spinner: React.FC = () => <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white"></div>;
 const PlusIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6"><path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" /></svg>;
 const MicrophoneIcon: React.FC<{ isListening?: boolean }> = ({ isListening }) => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={`w-6 h-6 ${isListening ? 'text-red-500' : ''}`}><path strokeLinecap="round" strokeLinejoin="round" d="M12 18.75a6 6 0 006-6v-1.5a6 6 0 00-12 0v1.5a6 6 0 006 6zM12 14.25a3 3 0 003-3v-1.5a3 3 0 00-6 0v1.5a3 3 0 003 3z" /><path strokeLinecap="round" strokeLinejoin="round" d="M19.5 10.5c0 4.142-3.358 7.5-7.5 7.5s-7.5-3.358-7.5-7.5" /><path strokeLinecap="round" strokeLinejoin="round" d="M5.25 7.5h.01M18.75 7.5h.01" /></svg>;
+const MenuIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6"><path strokeLinecap="round" strokeLinejoin="round" d="M3.75 6.75h16.5M3.75 12h16.5m-16.5 5.25h16.5" /></svg>;
+const PencilIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L10.582 16.07a4.5 4.5 0 01-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 011.13-1.897l8.932-8.931z" /></svg>;
+const PinIcon: React.FC<{ pinned?: boolean }> = ({ pinned }) => <svg xmlns="http://www.w3.org/2000/svg" fill={pinned ? 'currentColor' : 'none'} viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M17.593 3.322c1.1.128 1.907 1.077 1.907 2.185V21L12 17.25 4.5 21V5.507c0-1.108.806-2.057 1.907-2.185a48.507 48.507 0 0111.186 0z" /></svg>;
+const TrashIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" /></svg>;
+const StopIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-6 h-6"><path fillRule="evenodd" d="M4.5 7.5a3 3 0 013-3h9a3 3 0 013 3v9a3 3 0 01-3 3h-9a3 3 0 01-3-3v-9z" clipRule="evenodd" /></svg>;
+const ArrowPathIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" /></svg>;
+const ChevronLeftIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5L8.25 12l7.5-7.5" /></svg>;
+const ChevronRightIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M8.25 4.5l7.5 7.5-7.5 7.5" /></svg>;
+const CogIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6"><path strokeLinecap="round" strokeLinejoin="round" d="M9.594 3.94c.09-.542.56-.94 1.11-.94h2.593c.55 0 1.02.398 1.11.94l.213 1.281c.063.374.313.686.645.87.074.04.147.083.22.127.324.196.72.257 1.075.124l1.217-.456a1.125 1.125 0 011.37.49l1.296 2.247a1.125 1.125 0 01-.26 1.431l-1.003.827c-.293.24-.438.613-.431.992a6.759 6.759 0 010 .255c-.007.378.138.75.43.99l1.005.828c.424.35.534.954.26 1.43l-1.298 2.247a1.125 1.125 0 01-1.369.491l-1.217-.456c-.355-.133-.75-.072-1.076.124a6.57 6.57 0 01-.22.128c-.331.183-.581.495-.644.869l-.213 1.28c-.09.543-.56.941-1.11.941h-2.594c-.55 0-1.02-.398-1.11-.94l-.213-1.281c-.062-.374-.312-.686-.644-.87a6.52 6.52 0 01-.22-.127c-.325-.196-.72-.257-1.076-.124l-1.217.456a1.125 1.125 0 01-1.369-.49l-1.297-2.247a1.125 1.125 0 01.26-1.431l1.004-.827c.292-.24.437-.613.43-.992a6.932 6.932 0 010-.255c.007-.378-.138-.75-.43-.99l-1.004-.828a1.125 1.125 0 01-.26-1.43l1.297-2.247a1.125 1.125 0 011.37-.491l1.216.456c.356.133.751.072 1.076-.124.072-.044.146-.087.22-.128.332-.183.582-.495.644-.869l.214-1.281z" /><path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>;
+const DocumentIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5 flex-shrink-0"><path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m2.25 0H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" /></svg>;
+const ArrowDownTrayIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6"><path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" /></svg>;
+const ArrowUpTrayIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5m-13.5-9L12 3m0 0l4.5 4.5M12 3v13.5" /></svg>;
+const MagnifyingGlassIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6"><path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z" /></svg>;
+const ChartBarIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6"><path strokeLinecap="round" strokeLinejoin="round" d="M3 13.125C3 12.504 3.504 12 4.125 12h2.25c.621 0 1.125.504 1.125 1.125v6.75C7.5 20.496 6.996 21 6.375 21h-2.25A1.125 1.125 0 013 19.875v-6.75zM9.75 8.625c0-.621.504-1.125 1.125-1.125h2.25c.621 0 1.125.504 1.125 1.125v11.25c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 01-1.125-1.125V8.625zM16.5 4.125c0-.621.504-1.125 1.125-1.125h2.25C20.496 3 21 3.504 21 4.125v15.75c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 01-1.125-1.125V4.125z" /></svg>;
+const BookOpenIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6"><path strokeLinecap="round" strokeLinejoin="round" d="M12 6.042A8.967 8.967 0 006 3.75c-1.052 0-2.062.18-3 .512v14.25A8.987 8.987 0 016 18c2.305 0 4.408.867 6 2.292m0-14.25a8.966 8.966 0 016-2.292c1.052 0 2.062.18 3 .512v14.25A8.987 8.987 0 0018 18a8.967 8.967 0 00-6 2.292m0-14.25v14.25" /></svg>;
+const WrenchIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M21.75 6.75a4.5 4.5 0 01-4.884 4.484c-1.076-.091-2.264.071-2.95.904l-7.152 8.684a2.548 2.548 0 11-3.586-3.586l8.684-7.152c.833-.686.995-1.874.904-2.95a4.5 4.5 0 016.336-4.486l-3.276 3.276a3.004 3.004 0 002.25 2.25l3.276-3.276c.256.565.398 1.192.398 1.852z" /></svg>;
+const UserCircleIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6"><path strokeLinecap="round" strokeLinejoin="round" d="M17.982 18.725A7.488 7.488 0 0012 15.75a7.488 7.488 0 00-5.982 2.975m11.963 0a9 9 0 10-11.963 0m11.963 0A8.966 8.966 0 0112 21a8.966 8.966 0 01-5.982-2.275M15 9.75a3 3 0 11-6 0 3 3 0 016 0z" /></svg>;
+const SpeakerWaveIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M19.114 5.636a9 9 0 010 12.728M16.463 8.288a5.25 5.25 0 010 7.424M6.75 8.25l4.72-4.72a.75.75 0 011.28.53v15.88a.75.75 0 01-1.28.53l-4.72-4.72H4.51c-.88 0-1.704-.507-1.938-1.354A9.01 9.01 0 012.25 12c0-.83.112-1.633.322-2.396C2.806 8.756 3.63 8.25 4.51 8.25H6.75z" /></svg>;
+const VoiceModeIcon: React.FC<{ isActive?: boolean }> = ({ isActive }) => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={`w-6 h-6 ${isActive ? 'text-cyan-400' : ''}`}><path strokeLinecap="round" strokeLinejoin="round" d="M8.625 12a.375.375 0 11-.75 0 .375.375 0 01.75 0zm0 0H8.25m4.125 0a.375.375 0 11-.75 0 .375.375 0 01.75 0zm0 0H12m4.125 0a.375.375 0 11-.75 0 .375.375 0 01.75 0zm0 0h-.375M21 12c0 4.556-4.03 8.25-9 8.25a9.764 9.764 0 01-2.555-.337A5.972 5.972 0 015.41 20.97a5.969 5.969 0 01-.474-.065 4.48 4.48 0 00.978-2.025c.09-.457-.133-.901-.467-1.226C3.93 16.178 3 14.189 3 12c0-4.556 4.03-8.25 9-8.25s9 3.694 9 8.25z" /></svg>;
+const GoogleIcon: React.FC = () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 48 48" className="w-5 h-5"><path fill="#FFC107" d="M43.6 20.5H42V20H24v8h11.3C33.7 32.7 29.2 36 24 36c-6.6 0-12-5.4-12-12s5.4-12 12-12c3.1 0 5.8 1.2 7.9 3.1l5.7-5.7C34 6.1 29.3 4 24 4 12.9 4 4 12.9 4 24s8.9 20 20 20 20-8.9 20-20c0-1.3-.1-2.4-.4-3.5z"/><path fill="#FF3D00" d="M6.3 14.7l6.6 4.8C14.7 15.1 19 12 24 12c3.1 0 5.8 1.2 7.9 3.1l5.7-5.7C34 6.1 29.3 4 24 4 16.3 4 9.7 8.3 6.3 14.7z"/><path fill="#4CAF50" d="M24 44c5.2 0 9.9-2 13.4-5.2l-6.2-5.2C29.2 35.1 26.7 36 24 36c-5.2 0-9.6-3.3-11.3-7.9l-6.5 5C9.5 39.6 16.2 44 24 44z"/><path fill="#1976D2" d="M43.6 20.5H42V20H24v8h11.3c-.8 2.2-2.2 4.2-4.1 5.6l6.2 5.2C37 39.2 44 34 44 24c0-1.3-.1-2.4-.4-3.5z"/></svg>;
 
 // --- Auth Component (Login/Signup with Firebase) ---
-const AuthComponent: React.FC = () => {
-    const [isLoginView, setIsLoginView] = useState(true);
+type AuthView = 'login' | 'signup' | 'reset';
+
+const AuthComponent: React.FC<{
+    /** Set when a guest is upgrading; their history comes with them. */
+    isGuest?: boolean;
+    onCancel?: () => void;
+    /** Called after a guest links an account, which keeps the same user and fires no auth event. */
+    onAccountLinked?: () => void;
+}> = ({ isGuest, onCancel, onAccountLinked }) => {
+    const [view, setView] = useState<AuthView>(isGuest ? 'signup' : 'login');
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
     const [error, setError] = useState('');
+    const [notice, setNotice] = useState('');
     const [isLoading, setIsLoading] = useState(false);
 
-    const handleSubmit = async (e: FormEvent) => {
-        e.preventDefault();
+    const run = async (action: () => Promise<void>) => {
         setError('');
+        setNotice('');
+        setIsLoading(true);
+        try {
+            await action();
+        } catch (err) {
+            setError(authErrorMessage(err));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        if (view === 'reset') {
+            if (!email.trim()) {
+                setError("Enter the email address you signed up with.");
+                return;
+            }
+            run(async () => {
+                await sendPasswordReset(email);
+                setNotice(`If an account exists for ${email}, a reset link is on its way.`);
+            });
+            return;
+        }
         if (!email.trim() || !password.trim()) {
             setError("Email and password cannot be empty.");
             return;
         }
-        setIsLoading(true);
-        try {
-            if (isLoginView) {
-                await auth.signInWithEmailAndPassword(email, password);
+        // onAuthStateChanged in App component will handle the login success
+        run(async () => {
+            if (view === 'login') {
+                await signInWithEmail(email, password);
             } else {
-                await auth.createUserWithEmailAndPassword(email, password);
+                await signUpWithEmail(email, password);
+                if (isGuest) onAccountLinked?.();
             }
-            // onAuthStateChanged in App component will handle the login success
-        } catch (err: any) {
-            setError(err.message || 'An unknown error occurred.');
-        } finally {
-            setIsLoading(false);
-        }
+        });
     };
 
-    const toggleView = () => {
-        setIsLoginView(!isLoginView);
+    const handleGoogle = () => run(async () => {
+        await signInWithGoogle();
+        if (isGuest && !auth.currentUser?.isAnonymous) onAccountLinked?.();
+    });
+
+    const switchView = (next: AuthView) => {
+        setView(next);
         setError('');
-        setEmail('');
+        setNotice('');
         setPassword('');
-    }
+    };
+
+    const headings: Record<AuthView, [string, string]> = {
+        login: ['Welcome Back', isGuest ? 'Log in and your guest chats come with you' : 'Log in to continue your session'],
+        signup: ['Create Account', isGuest ? 'Keep your guest chats by creating an account' : 'Sign up to start chatting with Gemini AI'],
+        reset: ['Reset Password', "We'll email you a link to choose a new one"],
+    };
 
     return (
         <div className="min-h-screen flex items-center justify-center bg-gray-900 text-white p-4">
             <div className="w-full max-w-md p-8 space-y-6 bg-gray-800 rounded-lg shadow-lg">
                 <div className="text-center">
-                    <h1 className="text-3xl font-bold text-cyan-400">{isLoginView ? 'Welcome Back' : 'Create Account'}</h1>
-                    <p className="text-gray-400 mt-2">{isLoginView ? 'Log in to continue your session' : 'Sign up to start chatting with Gemini AI'}</p>
+                    <h1 className="text-3xl font-bold text-cyan-400">{headings[view][0]}</h1>
+                    <p className="text-gray-400 mt-2">{headings[view][1]}</p>
                 </div>
                 <form onSubmit={handleSubmit} className="space-y-4">
-                    {error && <p className="text-sm text-red-400 text-center bg-red-900/50 p-2 rounded-md">{error}</p>}
+                    {error && <p className="text-sm text-red-400 text-center bg-red-900/50 p-2 rounded-md" role="alert">{error}</p>}
+                    {notice && <p className="text-sm text-green-300 text-center bg-green-900/40 p-2 rounded-md" role="status">{notice}</p>}
                     <div>
                         <label htmlFor="email" className="text-sm font-medium text-gray-300 sr-only">Email</label>
                         <input id="email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="Email" required className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500" aria-label="Email"/>
                     </div>
+                    {view !== 'reset' && (
+                        <div>
+                            <label htmlFor="password" className="text-sm font-medium text-gray-300 sr-only">Password</label>
+                            <input id="password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Password" required className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500" aria-label="Password"/>
+                        </div>
+                    )}
+                    {view === 'login' && (
+                        <div className="text-right">
+                            <button type="button" onClick={() => switchView('reset')} className="text-sm text-cyan-400 hover:text-cyan-300 hover:underline">Forgot password?</button>
+                        </div>
+                    )}
+                    <button type="submit" disabled={isLoading} className="w-full py-2.5 px-4 bg-cyan-600 hover:bg-cyan-700 text-white font-semibold rounded-md transition duration-200 flex items-center justify-center disabled:bg-cyan-800 disabled:cursor-not-allowed" aria-live="polite">
+                        {isLoading ? <Spinner /> : (view === 'login' ? 'Log In' : view === 'signup' ? 'Sign Up' : 'Send Reset Link')}
+                    </button>
+                </form>
+                {view !== 'reset' && (
+                    <div className="space-y-3">
+                        <div className="flex items-center gap-3 text-xs text-gray-500"><div className="flex-1 border-t border-gray-700" />or<div className="flex-1 border-t border-gray-700" /></div>
+                        <button onClick={handleGoogle} disabled={isLoading} className="w-full py-2.5 px-4 bg-white text-gray-800 font-semibold rounded-md hover:bg-gray-200 transition duration-200 flex items-center justify-center gap-2 disabled:opacity-50">
+                            <GoogleIcon />
+                            Continue with Google
+                        </button>
+                        {!isGuest && (
+                            <button onClick={() => run(continueAsGuest)} disabled={isLoading} className="w-full py-2.5 px-4 border border-gray-600 text-gray-300 rounded-md hover:bg-gray-700 transition duration-200 disabled:opacity-50">
+                                Continue as guest
+                            </button>
+                        )}
+                    </div>
+                )}
+                <div className="text-center space-y-2">
+                    <button onClick={() => switchView(view === 'login' ? 'signup' : 'login')} className="text-sm text-cyan-400 hover:text-cyan-300 hover:underline">
+                        {view === 'login' ? "Don't have an account? Sign Up" : view === 'signup' ? "Already have an account? Log In" : 'Back to log in'}
+                    </button>
+                    {onCancel && (
+                        <button onClick={onCancel} className="block mx-auto text-sm text-gray-400 hover:text-white hover:underline">Keep chatting as a guest</button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const VerifyEmailScreen: React.FC<{ user: firebase.User; onVerified: () => void; onLogout: () => void }> = ({ user, onVerified, onLogout }) => {
+    const [message, setMessage] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+
+    const handleCheck = async () => {
+        setIsLoading(true);
+        try {
+            if (await refreshVerification()) {
+                onVerified();
+            } else {
+                setMessage("We couldn't confirm that yet. Follow the link in the email, then try again.");
+            }
+        } catch (err) {
+            setMessage(authErrorMessage(err));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleResend = async () => {
+        try {
+            await resendVerificationEmail();
+            setMessage(`Sent another link to ${user.email}.`);
+        } catch (err) {
+            setMessage(authErrorMessage(err));
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gray-900 text-white p-4">
+            <div className="w-full max-w-md p-8 space-y-6 bg-gray-800 rounded-lg shadow-lg text-center">
+                <h1 className="text-3xl font-bold text-cyan-400">Verify your email</h1>
+                <p className="text-gray-300">We sent a verification link to <span className="font-semibold">{user.email}</span>. Open it to start chatting.</p>
+                {message && <p className="text-sm text-gray-300 bg-gray-700/60 p-2 rounded-md" role="status">{message}</p>}
+                <button onClick={handleCheck} disabled={isLoading} className="w-full py-2.5 px-4 bg-cyan-600 hover:bg-cyan-700 text-white font-semibold rounded-md transition duration-200 flex items-center justify-center disabled:bg-cyan-800">
+                    {isLoading ? <Spinner /> : "I've verified my email"}
+                </button>
+                <div className="flex justify-center gap-4 text-sm">
+                    <button onClick={handleResend} className="text-cyan-400 hover:text-cyan-300 hover:underline">Resend email</button>
+                    <button onClick={onLogout} className="text-gray-400 hover:text-white hover:underline">Use a different account</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// --- Helper Functions & Components ---
+const downloadFile = (fileName: string, content: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Revoking in the same tick can cancel the download in Firefox and Safari.
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Reading and base64-encoding files is the slow part of rebuilding history, and attachments never change.
+const attachmentPartCache = new Map<string, ChatPart>();
+
+const attachmentToPart = async (ref: AttachmentRef): Promise<ChatPart | null> => {
+    const cached = attachmentPartCache.get(ref.id);
+    if (cached) return cached;
+    const attachment = await getAttachment(ref.id);
+    if (!attachment) return null;
+    const part: ChatPart = ref.kind === 'text'
+        ? { text: formatTextAttachment(ref.name, await attachment.blob.text()) }
+        : { inlineData: { mimeType: attachment.mimeType, data: await blobToBase64(attachment.blob) } };
+    attachmentPartCache.set(ref.id, part);
+    return part;
+};
+
+const messageToParts = async (msg: ChatMessage): Promise<ChatPart[]> => {
+    const parts: ChatPart[] = [];
+    for (const ref of msg.attachments ?? []) {
+        const part = await attachmentToPart(ref);
+        if (part) parts.push(part);
+    }
+    if (msg.text.trim()) parts.push({ text: msg.text });
+    return parts;
+};
+
+/** Replays a reply's tool use as the model saw it: each round's calls, then their results. */
+const toolCallContents = (toolCalls: ToolCallRecord[]): ChatContent[] => {
+    const rounds = [...new Set(toolCalls.map(call => call.round))];
+    return rounds.flatMap(round => {
+        const answered = toolCalls.filter(call => call.round === round && call.result);
+        if (answered.length === 0) return [];
+        return [
+            { role: 'model' as const, parts: answered.map(call => ({ functionCall: { id: call.callId, name: call.name, args: call.args } })) },
+            { role: 'user' as const, parts: answered.map(call => ({ functionResponse: { id: call.callId, name: call.name, response: call.result! } })) },
+        ];
+    });
+};
+
+const buildHistory = async (messages: ChatMessage[]): Promise<ChatContent[]> => {
+    const history: ChatContent[] = [];
+    for (const msg of messages) {
+        if (msg.toolCalls) history.push(...toolCallContents(msg.toolCalls));
+        const parts = await messageToParts(msg);
+        if (parts.length > 0) history.push({ role: msg.role, parts });
+    }
+    return history;
+};
+
+/** The history sent to the model for `thread`: the active summary, if any, then the messages after it. */
+const buildContext = async (conversation: Conversation, thread: ChatMessage[]): Promise<ChatContent[]> => {
+    const active = findActiveSummary(conversation, thread);
+    if (!active) return buildHistory(thread);
+    return [...summaryToContents(active.summary), ...await buildHistory(thread.slice(active.throughIndex + 1))];
+};
+
+/** Resolves a stored attachment to an object URL for as long as the component is mounted. */
+const useAttachmentUrl = (attachmentId?: string): string | null => {
+    const [url, setUrl] = useState<string | null>(null);
+    useEffect(() => {
+        if (!attachmentId) return;
+        let objectUrl: string | null = null;
+        let cancelled = false;
+        getAttachment(attachmentId).then(attachment => {
+            if (cancelled || !attachment) return;
+            objectUrl = URL.createObjectURL(attachment.blob);
+            setUrl(objectUrl);
+        });
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [attachmentId]);
+    return url;
+};
+
+const AttachmentChip: React.FC<{ name: string; kind: AttachmentKind; size: number; onRemove?: () => void }> = ({ name, kind, size, onRemove }) => (
+    <div className="flex items-center gap-2 max-w-[14rem] px-2 py-1.5 bg-gray-900/50 rounded-md text-sm" title={name}>
+        <DocumentIcon />
+        <div className="min-w-0">
+            <div className="truncate">{name}</div>
+            <div className="text-xs text-gray-400">{kind.toUpperCase()}{size > 0 && ` · ${formatBytes(size)}`}</div>
+        </div>
+        {onRemove && (
+            <button type="button" onClick={onRemove} className="text-gray-400 hover:text-white flex-shrink-0" aria-label={`Remove ${name}`}>
+                <XCircleIcon />
+            </button>
+        )}
+    </div>
+);
+
+const MessageAttachment: React.FC<{ attachment: AttachmentRef; isOnly: boolean }> = ({ attachment, isOnly }) => {
+    const url = useAttachmentUrl(attachment.id);
+    if (attachment.kind === 'image') {
+        return url ? <img src={url} alt={attachment.name} className={`${isOnly ? 'rounded-t-xl max-h-60 w-full' : 'rounded-md h-32 w-full'} object-cover`} /> : null;
+    }
+    if (attachment.kind === 'audio') {
+        return url ? <audio controls src={url} className="w-full" aria-label={attachment.name} /> : null;
+    }
+    return (
+        <a href={url ?? undefined} target="_blank" rel="noopener noreferrer" download={attachment.kind === 'text' ? attachment.name : undefined}>
+            <AttachmentChip name={attachment.name} kind={attachment.kind} size={attachment.size} />
+        </a>
+    );
+};
+
+const MessageAttachments: React.FC<{ message: ChatMessage }> = ({ message }) => {
+    const attachments = message.attachments ?? [];
+    if (attachments.length === 0) {
+        return message.imageUrl ? <img src={message.imageUrl} alt="User upload" className="rounded-t-xl max-h-60 w-full object-cover" /> : null;
+    }
+    const images = attachments.filter(att => att.kind === 'image');
+    const others = attachments.filter(att => att.kind !== 'image');
+    return (
+        <>
+            {images.length === 1 && others.length === 0 ? (
+                <MessageAttachment attachment={images[0]} isOnly />
+            ) : images.length > 0 && (
+                <div className="grid grid-cols-2 gap-1 p-1">
+                    {images.map(att => <MessageAttachment key={att.id} attachment={att} isOnly={false} />)}
+                </div>
+            )}
+            {others.length > 0 && (
+                <div className="flex flex-wrap gap-2 p-2">
+                    {others.map(att => <MessageAttachment key={att.id} attachment={att} isOnly={false} />)}
+                </div>
+            )}
+        </>
+    );
+};
+
+const CODE_FILE_EXTENSIONS: Record<string, string> = {
+    javascript: 'js', js: 'js', typescript: 'ts', ts: 'ts', tsx: 'tsx', jsx: 'jsx', python: 'py', py: 'py',
+    ruby: 'rb', rust: 'rs', go: 'go', java: 'java', kotlin: 'kt', csharp: 'cs', cpp: 'cpp', c: 'c',
+    html: 'html', svg: 'svg', xml: 'xml', css: 'css', scss: 'scss', json: 'json', yaml: 'yml', yml: 'yml',
+    markdown: 'md', md: 'md', bash: 'sh', sh: 'sh', shell: 'sh', zsh: 'sh', sql: 'sql', mermaid: 'mmd',
+};
+
+/** Languages whose source can be shown live in a sandboxed frame. */
+const PREVIEWABLE_LANGUAGES = new Set(['html', 'svg']);
+
+const MERMAID_RENDER_DELAY_MS = 300;
+
+let mermaidLoader: Promise<typeof import('mermaid')['default']> | null = null;
+// Mermaid is large, so it is only fetched once a diagram needs drawing.
+const loadMermaid = () => {
+    mermaidLoader ??= import('mermaid').then(({ default: mermaid }) => {
+        mermaid.initialize({ startOnLoad: false, theme: 'dark', securityLevel: 'strict' });
+        return mermaid;
+    });
+    return mermaidLoader;
+};
+
+/** Draws a Mermaid definition, showing the source until it renders (or if it can't). */
+const MermaidDiagram: React.FC<{ code: string }> = ({ code }) => {
+    const [svg, setSvg] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        // Waits for the definition to settle so a streaming reply doesn't re-render half-written diagrams.
+        const timer = setTimeout(async () => {
+            try {
+                const mermaid = await loadMermaid();
+                const { svg: rendered } = await mermaid.render(`mermaid-${generateId()}`, code);
+                if (!cancelled) {
+                    setSvg(rendered);
+                    setError(null);
+                }
+            } catch (err) {
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Could not draw this diagram.');
+            }
+        }, MERMAID_RENDER_DELAY_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [code]);
+
+    if (svg && !error) return <div className="flex justify-center p-3 bg-gray-900 overflow-x-auto" dangerouslySetInnerHTML={{ __html: svg }} />;
+    return (
+        <div>
+            {error && <p className="px-3 pt-2 text-xs text-red-400">{error}</p>}
+            <pre className="p-3 overflow-x-auto text-sm">{code}</pre>
+        </div>
+    );
+};
+
+const previewDocument = (language: string, code: string) =>
+    language === 'svg' ? `<!DOCTYPE html><html><body style="margin:0;display:flex;justify-content:center">${code}</body></html>` : code;
+
+/** A fenced code block with copy, download and, where it makes sense, a rendered view. */
+const CodeBlock: React.FC<{ language: string; code: string }> = ({ language, code }) => {
+    const isMermaid = language === 'mermaid';
+    const canPreview = PREVIEWABLE_LANGUAGES.has(language);
+    const [showRendered, setShowRendered] = useState(isMermaid);
+    const [copied, setCopied] = useState(false);
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(code);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 1500);
+        } catch (error) {
+            console.error("Copy failed:", error);
+        }
+    };
+
+    const handleDownload = () => {
+        downloadFile(`snippet.${CODE_FILE_EXTENSIONS[language] ?? 'txt'}`, code, 'text/plain');
+    };
+
+    const buttonClass = "px-2 py-0.5 rounded hover:bg-gray-700 hover:text-white";
+
+    return (
+        <div className="not-prose my-4 overflow-hidden rounded-md border border-gray-700 bg-[#1e1e1e]">
+            <div className="flex items-center gap-1 px-3 py-1 text-xs text-gray-400 bg-gray-800 font-sans">
+                <span className="mr-auto">{language || 'text'}</span>
+                {(isMermaid || canPreview) && (
+                    <button onClick={() => setShowRendered(shown => !shown)} className={buttonClass}>
+                        {showRendered ? 'Code' : isMermaid ? 'Diagram' : 'Preview'}
+                    </button>
+                )}
+                <button onClick={handleCopy} className={buttonClass} aria-label="Copy code">{copied ? 'Copied' : 'Copy'}</button>
+                <button onClick={handleDownload} className={buttonClass} aria-label="Download code">Download</button>
+            </div>
+            {showRendered && isMermaid ? (
+                <MermaidDiagram code={code} />
+            ) : showRendered && canPreview ? (
+                // No allow-same-origin: scripts in the snippet run, but can't reach the app or its storage.
+                <iframe sandbox="allow-scripts" srcDoc={previewDocument(language, code)} title={`${language} preview`} className="w-full h-80 bg-white" />
+            ) : (
+                <SyntaxHighlighter style={vscDarkPlus} language={language || 'text'} PreTag="div" customStyle={{ margin: 0, borderRadius: 0 }}>
+                    {code}
+                </SyntaxHighlighter>
+            )}
+        </div>
+    );
+};
+
+/** Splits a fenced block's `<pre><code class="language-x">` into its language and source. */
+const readCodeBlock = (children: React.ReactNode): { language: string; code: string } => {
+    const codeElement = React.Children.toArray(children)[0] as React.ReactElement<{ className?: string; children?: React.ReactNode }> | undefined;
+    const language = /language-(\S+)/.exec(codeElement?.props.className ?? '')?.[1]?.toLowerCase() ?? '';
+    return { language, code: String(codeElement?.props.children ?? '').replace(/\n$/, '') };
+};
+
+const inlineCode: NonNullable<React.ComponentProps<typeof ReactMarkdown>['components']>['code'] = ({ node, className, children, ...props }) => (
+    <code className="bg-gray-800/50 px-1 py-0.5 rounded-sm font-mono text-base" {...props}>
+        {children}
+    </code>
+);
+
+// Fenced blocks arrive as <pre><code>, so `pre` handles those and `code` is left with inline spans.
+const markdownComponents: React.ComponentProps<typeof ReactMarkdown>['components'] = {
+    pre: ({ children }) => <CodeBlock {...readCodeBlock(children)} />,
+    code: inlineCode,
+};
+
+// Exported pages are static, so blocks are plain highlighted source with no controls.
+const staticMarkdownComponents: React.ComponentProps<typeof ReactMarkdown>['components'] = {
+    pre: ({ children }) => {
+        const { language, code } = readCodeBlock(children);
+        return <SyntaxHighlighter style={vscDarkPlus} language={language || 'text'} PreTag="div">{code}</SyntaxHighlighter>;
+    },
+    code: inlineCode,
+};
+
+// Parsing and highlighting are the expensive part of a render, so unchanged text is skipped.
+const MessageRenderer = React.memo<{ content: string; isStatic?: boolean }>(({ content, isStatic }) => (
+    <div className="prose prose-invert prose-lg md:prose-xl max-w-none p-3 font-serif">
+        <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeKatex]} components={isStatic ? staticMarkdownComponents : markdownComponents}>
+            {content}
+        </ReactMarkdown>
+    </div>
+));
+
+/** A function with a fixed identity that always calls the latest `fn`, so it doesn't defeat `React.memo`. */
+const useStableCallback = <Args extends unknown[], Result>(fn: (...args: Args) => Result): ((...args: Args) => Result) => {
+    const latest = useRef(fn);
+    useLayoutEffect(() => {
+        latest.current = fn;
+    });
+    return useCallback((...args: Args) => latest.current(...args), []);
+};
+
+const VIRTUALIZE_AFTER_MESSAGES = 80;
+const ESTIMATED_MESSAGE_HEIGHT = 160;
+const OVERSCAN_PX = 1000;
+
+/**
+ * Windowing for long message lists: only items near the viewport of `containerRef` are
+ * mounted, with spacers standing in for the rest. Heights are measured once items
+ * render (see `VirtualItem`) and estimated until then. Short lists render in full.
+ */
+const useVirtualList = (ids: string[], containerRef: React.RefObject<HTMLElement | null>) => {
+    const enabled = ids.length > VIRTUALIZE_AFTER_MESSAGES;
+    const heights = useRef(new Map<string, number>());
+    const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+    const [, setMeasured] = useState(0);
+    const observer = useRef<ResizeObserver | null>(null);
+
+    if (!observer.current && typeof ResizeObserver !== 'undefined') {
+        observer.current = new ResizeObserver(entries => {
+            let changed = false;
+            for (const entry of entries) {
+                const id = (entry.target as HTMLElement).dataset.itemId;
+                const height = entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height;
+                if (id && entry.target.isConnected && heights.current.get(id) !== height) {
+                    heights.current.set(id, height);
+                    changed = true;
+                }
+            }
+            if (changed) setMeasured(count => count + 1);
+        });
+    }
+    useEffect(() => () => observer.current?.disconnect(), []);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!enabled || !container) return;
+        const update = () => setViewport({ scrollTop: container.scrollTop, height: container.clientHeight });
+        update();
+        container.addEventListener('scroll', update, { passive: true });
+        window.addEventListener('resize', update);
+        return () => {
+            container.removeEventListener('scroll', update);
+            window.removeEventListener('resize', update);
+        };
+    }, [enabled, containerRef]);
+
+    const offsets: number[] = [];
+    let total = 0;
+    for (const id of ids) {
+        offsets.push(total);
+        total += heights.current.get(id) ?? ESTIMATED_MESSAGE_HEIGHT;
+    }
+
+    let start = 0;
+    let end = ids.length;
+    if (enabled) {
+        const top = viewport.scrollTop - OVERSCAN_PX;
+        const bottom = viewport.scrollTop + viewport.height + OVERSCAN_PX;
+        while (start < ids.length - 1 && offsets[start + 1] <= top) start++;
+        end = start;
+        while (end < ids.length && offsets[end] < bottom) end++;
+    }
+
+    /** Brings an item that may not be mounted into view; it renders on the following frame. */
+    const scrollToItem = (id: string) => {
+        const index = ids.indexOf(id);
+        const container = containerRef.current;
+        if (index === -1 || !container) return;
+        container.scrollTop = offsets[index] - container.clientHeight / 2;
+    };
+
+    return {
+        start,
+        end,
+        paddingTop: enabled ? offsets[start] ?? 0 : 0,
+        paddingBottom: enabled ? total - (offsets[end] ?? total) : 0,
+        observer: observer.current,
+        scrollToItem,
+    };
+};
+
+/** One row of a `useVirtualList` list, reporting its height as it changes. */
+const VirtualItem: React.FC<{ id: string; observer: ResizeObserver | null; className?: string; children: React.ReactNode }> = ({ id, observer, className, children }) => {
+    const ref = useRef<HTMLDivElement>(null);
+    useEffect(() => {
+        const element = ref.current;
+        if (!element || !observer) return;
+        observer.observe(element);
+        return () => observer.unobserve(element);
+    }, [observer]);
+    return <div ref={ref} data-item-id={id} className={className}>{children}</div>;
+};
+
+// --- Conversation Sidebar ---
+const ConversationSidebar: React.FC<{
+    conversations: Conversation[];
+    activeConversationId: string | null;
+    isOpen: boolean;
+    onSelect: (id: string) => void;
+    onRename: (id: string, title: string) => void;
+    onTogglePin: (id: string) => void;
+    onDelete: (id: string) => void;
+    onImport: (file: File) => Promise<void>;
+}> = ({ conversations, activeConversationId, isOpen, onSelect, onRename, onTogglePin, onDelete, onImport }) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftTitle, setDraftTitle] = useState('');
+    const [importError, setImportError] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const handleImportChange = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setImportError(null);
+        try {
+            await onImport(file);
+        } catch (error) {
+            console.error(error);
+            setImportError(error instanceof Error ? error.message : 'Import failed.');
+        }
+    };
+
+    const startRename = (conv: Conversation) => {
+        setEditingId(conv.id);
+        setDraftTitle(conv.title);
+    };
+
+    const commitRename = () => {
+        if (editingId && draftTitle.trim()) {
+            onRename(editingId, draftTitle.trim());
+        }
+        setEditingId(null);
+    };
+
+    const handleDelete = (conv: Conversation) => {
+        if (window.confirm(`Delete "${conv.title}"? This cannot be undone.`)) {
+            onDelete(conv.id);
+        }
+    };
+
+    return (
+        <aside className={`${isOpen ? 'flex' : 'hidden'} md:flex flex-col w-64 bg-gray-800 border-r border-gray-700/50 flex-shrink-0`} aria-label="Conversations">
+            <div className="p-2 border-b border-gray-700/50">
+                <button onClick={() => importInputRef.current?.click()} className="flex items-center gap-2 w-full px-2 py-1.5 text-sm text-gray-300 rounded-md hover:bg-gray-700" aria-label="Import conversation">
+                    <ArrowUpTrayIcon />
+                    <span>Import conversation</span>
+                </button>
+                <input type="file" ref={importInputRef} onChange={handleImportChange} className="hidden" accept="application/json,.json" />
+                {importError && <p className="mt-1 text-xs text-red-400 bg-red-900/50 p-2 rounded-md" role="alert">{importError}</p>}
+            </div>
+            <nav className="flex-1 overflow-y-auto p-2 space-y-1">
+                {sortConversations(conversations).map(conv => (
+                    <div
+                        key={conv.id}
+                        className={`group flex items-center gap-1 rounded-md px-2 py-2 text-sm cursor-pointer ${conv.id === activeConversationId ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-700/50'}`}
+                        onClick={() => onSelect(conv.id)}
+                    >
+                        {editingId === conv.id ? (
+                            <input
+                                autoFocus
+                                value={draftTitle}
+                                onChange={(e) => setDraftTitle(e.target.value)}
+                                onClick={(e) => e.stopPropagation()}
+                                onBlur={commitRename}
+                                onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingId(null); }}
+                                className="flex-1 min-w-0 px-1 bg-gray-900 border border-gray-600 rounded focus:outline-none focus:ring-1 focus:ring-cyan-500"
+                                aria-label="Conversation title"
+                            />
+                        ) : (
+                            <span className="flex-1 truncate" title={conv.title}>{conv.title}</span>
+                        )}
+                        <button onClick={(e) => { e.stopPropagation(); onTogglePin(conv.id); }} className={`p-1 rounded hover:text-white ${conv.pinned ? 'text-cyan-400' : 'text-gray-400 opacity-0 group-hover:opacity-100'}`} aria-label={conv.pinned ? 'Unpin conversation' : 'Pin conversation'}>
+                            <PinIcon pinned={conv.pinned} />
+                        </button>
+                        <button onClick={(e) => { e.stopPropagation(); startRename(conv); }} className="p-1 rounded text-gray-400 hover:text-white opacity-0 group-hover:opacity-100" aria-label="Rename conversation">
+                            <PencilIcon />
+                        </button>
+                        <button onClick={(e) => { e.stopPropagation(); handleDelete(conv); }} className="p-1 rounded text-gray-400 hover:text-red-400 opacity-0 group-hover:opacity-100" aria-label="Delete conversation">
+                            <TrashIcon />
+                        </button>
+                    </div>
+                ))}
+            </nav>
+        </aside>
+    );
+};
+
+// --- Message Bubble ---
+const TOOL_STATUS_LABELS: Record<ToolCallRecord['status'], string> = {
+    'awaiting-approval': 'Waiting for approval',
+    running: 'Running…',
+    done: 'Done',
+    denied: 'Declined',
+    error: 'Failed',
+};
+
+const ToolCallCard: React.FC<{
+    call: ToolCallRecord;
+    onApprove?: (id: string, approved: boolean) => void;
+}> = ({ call, onApprove }) => {
+    const awaitingApproval = call.status === 'awaiting-approval' && onApprove;
+    return (
+        <details open={!!awaitingApproval} className="mx-3 mt-3 text-sm bg-gray-800/70 border border-gray-600 rounded-md">
+            <summary className="flex items-center gap-2 px-3 py-2 cursor-pointer select-none">
+                <WrenchIcon />
+                <span className="font-medium">{findTool(call.name)?.label ?? call.name}</span>
+                <span className={`ml-auto text-xs ${call.status === 'error' || call.status === 'denied' ? 'text-red-400' : call.status === 'done' ? 'text-green-400' : 'text-amber-300'}`}>{TOOL_STATUS_LABELS[call.status]}</span>
+            </summary>
+            <div className="px-3 pb-3 space-y-2">
+                <div>
+                    <span className="text-xs text-gray-400">Arguments</span>
+                    <pre className="p-2 overflow-x-auto bg-gray-900 rounded text-xs">{JSON.stringify(call.args, null, 2)}</pre>
+                </div>
+                {call.result && (
                     <div>
-                        <label htmlFor="password" className="text-sm font-medium text-gray-300 sr-only">Password</label>
-                        <input id="password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Password" required className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500" aria-label="Password"/>
+                        <span className="text-xs text-gray-400">Result</span>
+                        <pre className="p-2 max-h-60 overflow-auto bg-gray-900 rounded text-xs">{JSON.stringify(call.result, null, 2)}</pre>
                     </div>
-                    <button type="submit" disabled={isLoading} className="w-full py-2.5 px-4 bg-cyan-600 hover:bg-cyan-700 text-white font-semibold rounded-md transition duration-200 flex items-center justify-center disabled:bg-cyan-800 disabled:cursor-not-allowed" aria-live="polite">
-                        {isLoading ? <Spinner /> : (isLoginView ? 'Log In' : 'Sign Up')}
+                )}
+                {awaitingApproval && (
+                    <div className="flex items-center justify-end gap-2">
+                        <span className="mr-auto text-xs text-gray-400">This tool reads your data. Allow it to run?</span>
+                        <button onClick={() => onApprove(call.id, false)} className="px-3 py-1 rounded-md hover:bg-gray-700">Deny</button>
+                        <button onClick={() => onApprove(call.id, true)} className="px-3 py-1 rounded-md bg-cyan-600 hover:bg-cyan-700">Allow</button>
+                    </div>
+                )}
+            </div>
+        </details>
+    );
+};
+
+/** Shown under a reply that ended before the model finished, e.g. at the token limit or a safety filter. */
+const TruncationNotice: React.FC<{ finishReason: string; safetyRatings?: SafetyRating[] }> = ({ finishReason, safetyRatings }) => (
+    <div className="mx-3 mb-3 p-2 text-sm rounded-md bg-amber-900/40 text-amber-200" role="note">
+        <p>{describeFinishReason(finishReason)}</p>
+        {safetyRatings && safetyRatings.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+                {safetyRatings.map(rating => (
+                    <span key={rating.category} className={`px-2 py-0.5 text-xs rounded-full ${rating.blocked ? 'bg-red-800/70' : 'bg-gray-800/70'}`}>
+                        {formatRatingLabel(rating.category)}: {formatRatingLabel(rating.probability)}{rating.blocked ? ' · blocked' : ''}
+                    </span>
+                ))}
+            </div>
+        )}
+    </div>
+);
+
+const ERROR_TITLES: Record<ChatErrorKind, string> = {
+    network: 'Connection problem',
+    auth: 'Not authorised',
+    quota: 'Rate limited',
+    safety: 'Blocked by safety filters',
+    'max-tokens': 'Output limit reached',
+    server: 'Model error',
+    empty: 'No response',
+};
+
+const ReplyErrorBanner: React.FC<{ error: ChatError; onRetry: () => void; onDismiss: () => void }> = ({ error, onRetry, onDismiss }) => (
+    <div className="flex items-start gap-3 p-3 text-sm rounded-md bg-red-900/50 text-red-200" role="alert">
+        <p className="flex-1"><span className="font-semibold">{ERROR_TITLES[error.kind]}.</span> {error.message}</p>
+        <button onClick={onRetry} className="flex items-center gap-1 px-3 py-1 rounded-md bg-gray-900/60 hover:bg-gray-900">
+            <ArrowPathIcon />
+            <span>Retry</span>
+        </button>
+        <button onClick={onDismiss} className="text-red-300 hover:text-white" aria-label="Dismiss error"><XCircleIcon /></button>
+    </div>
+);
+
+// Memoised with primitive and stable props, so while a reply streams only its own bubble re-renders.
+const MessageBubble = React.memo<{
+    message: ChatMessage;
+    /** Position among the alternatives at this point of the tree, and how many there are. */
+    versionIndex: number;
+    versionCount: number;
+    isBusy: boolean;
+    canRegenerate: boolean;
+    onSelectVersion: (message: ChatMessage, offset: -1 | 1) => void;
+    onRegenerate: () => void;
+    onEdit: (message: ChatMessage, text: string) => void;
+    onApproveToolCall: (id: string, approved: boolean) => void;
+    onReadAloud: (message: ChatMessage) => void;
+    isSpeaking: boolean;
+    isHighlighted?: boolean;
+}>(({ message, versionIndex, versionCount, isBusy, canRegenerate, onSelectVersion, onRegenerate, onEdit, onApproveToolCall, onReadAloud, isSpeaking, isHighlighted }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState(message.text);
+    const isUser = message.role === 'user';
+
+    const startEditing = () => {
+        setDraft(message.text);
+        setIsEditing(true);
+    };
+
+    const submitEdit = () => {
+        if (!draft.trim() && !message.attachments?.length) return;
+        setIsEditing(false);
+        onEdit(message, draft);
+    };
+
+    return (
+        <div id={`message-${message.id}`} className={`group flex flex-col ${isUser ? 'items-end' : 'items-start'}`}>
+            <div className={`max-w-xs md:max-w-md lg:max-w-2xl rounded-xl shadow transition-shadow duration-500 ${isUser ? 'bg-cyan-600' : 'bg-gray-700'} ${isHighlighted ? 'ring-4 ring-yellow-400 animate-pulse' : ''}`}>
+                <MessageAttachments message={message} />
+                {message.toolCalls?.map(call => <ToolCallCard key={call.id} call={call} onApprove={isBusy ? onApproveToolCall : undefined} />)}
+                {isEditing ? (
+                    <div className="p-3 space-y-2">
+                        <textarea
+                            autoFocus
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); submitEdit(); } if (e.key === 'Escape') setIsEditing(false); }}
+                            rows={3}
+                            className="w-full p-2 bg-gray-800 border border-gray-600 rounded-md resize-y focus:outline-none focus:ring-2 focus:ring-cyan-500 text-lg font-serif"
+                            aria-label="Edit message"
+                        />
+                        <div className="flex justify-end gap-2 text-sm">
+                            <button onClick={() => setIsEditing(false)} className="px-3 py-1 rounded-md hover:bg-cyan-700">Cancel</button>
+                            <button onClick={submitEdit} disabled={isBusy} className="px-3 py-1 rounded-md bg-gray-900/60 hover:bg-gray-900 disabled:opacity-50">Send</button>
+                        </div>
+                    </div>
+                ) : (
+                    message.text && <MessageRenderer content={message.text} />
+                )}
+                {message.finishReason && <TruncationNotice finishReason={message.finishReason} safetyRatings={message.safetyRatings} />}
+            </div>
+            <div className="flex items-center gap-1 mt-1 text-xs text-gray-400">
+                {versionCount > 1 && (
+                    <div className="flex items-center" aria-label="Response versions">
+                        <button onClick={() => onSelectVersion(message, -1)} disabled={isBusy || versionIndex === 0} className="p-1 rounded hover:text-white disabled:opacity-30" aria-label="Previous version">
+                            <ChevronLeftIcon />
+                        </button>
+                        <span>{versionIndex + 1}/{versionCount}</span>
+                        <button onClick={() => onSelectVersion(message, 1)} disabled={isBusy || versionIndex === versionCount - 1} className="p-1 rounded hover:text-white disabled:opacity-30" aria-label="Next version">
+                            <ChevronRightIcon />
+                        </button>
+                    </div>
+                )}
+                {isUser && !isEditing && !isBusy && (
+                    <button onClick={startEditing} className="p-1 rounded hover:text-white opacity-0 group-hover:opacity-100" aria-label="Edit message">
+                        <PencilIcon />
+                    </button>
+                )}
+                {!isUser && message.text && isSynthesisSupported && (
+                    <button onClick={() => onReadAloud(message)} className={`flex items-center gap-1 p-1 rounded hover:text-white ${isSpeaking ? 'text-cyan-400' : 'opacity-0 group-hover:opacity-100'}`} aria-label={isSpeaking ? 'Stop reading aloud' : 'Read aloud'}>
+                        <SpeakerWaveIcon />
+                        {isSpeaking && <span>Stop</span>}
                     </button>
+                )}
+                {canRegenerate && !isBusy && (
+                    <button onClick={onRegenerate} className="flex items-center gap-1 p-1 rounded hover:text-white" aria-label="Regenerate response">
+                        <ArrowPathIcon />
+                        <span>Regenerate</span>
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+});
+
+// --- Context Summary ---
+const SummaryDivider: React.FC<{
+    summary: ContextSummary;
+    isBusy: boolean;
+    onSave: (text: string) => void;
+}> = ({ summary, isBusy, onSave }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [draft, setDraft] = useState<string | null>(null);
+
+    const save = () => {
+        if (draft === null || !draft.trim()) return;
+        onSave(draft.trim());
+        setDraft(null);
+    };
+
+    return (
+        <div className="my-2 text-sm text-gray-400">
+            <div className="flex items-center gap-3">
+                <div className="flex-1 border-t border-dashed border-gray-600" />
+                <button onClick={() => setIsOpen(open => !open)} className="hover:text-white" aria-expanded={isOpen}>
+                    Earlier messages are summarised for the model{summary.edited ? ' (edited)' : ''} · {isOpen ? 'Hide' : 'View'}
+                </button>
+                <div className="flex-1 border-t border-dashed border-gray-600" />
+            </div>
+            {isOpen && (
+                <div className="mt-2 p-3 space-y-2 bg-gray-800 rounded-md">
+                    {draft === null ? (
+                        <>
+                            <p className="whitespace-pre-wrap text-gray-300">{summary.text}</p>
+                            <div className="flex justify-end">
+                                <button onClick={() => setDraft(summary.text)} disabled={isBusy} className="flex items-center gap-1 px-3 py-1 rounded-md hover:bg-gray-700 disabled:opacity-50" aria-label="Edit summary">
+                                    <PencilIcon />
+                                    <span>Edit</span>
+                                </button>
+                            </div>
+                        </>
+                    ) : (
+                        <>
+                            <textarea value={draft} onChange={(e) => setDraft(e.target.value)} rows={8} className="w-full p-2 bg-gray-900 border border-gray-600 rounded-md resize-y text-gray-200 focus:outline-none focus:ring-2 focus:ring-cyan-500" aria-label="Summary text" />
+                            <div className="flex justify-end gap-2">
+                                <button onClick={() => setDraft(null)} className="px-3 py-1 rounded-md hover:bg-gray-700">Cancel</button>
+                                <button onClick={save} disabled={isBusy} className="px-3 py-1 rounded-md bg-cyan-600 text-white hover:bg-cyan-700 disabled:opacity-50">Save summary</button>
+                            </div>
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// --- Settings Panel ---
+const parseOptionalNumber = (value: string): number | undefined =>
+    value.trim() === '' || Number.isNaN(Number(value)) ? undefined : Number(value);
+
+const SettingsPanel: React.FC<{
+    settings: ChatSettings;
+    personas: Persona[];
+    onChangeSettings: (settings: ChatSettings) => void;
+    onChangePersonas: (personas: Persona[]) => void;
+    voiceSettings: VoiceSettings;
+    onChangeVoiceSettings: (settings: VoiceSettings) => void;
+    onClose: () => void;
+}> = ({ settings, personas, onChangeSettings, onChangePersonas, voiceSettings, onChangeVoiceSettings, onClose }) => {
+    const [editingPersona, setEditingPersona] = useState<Persona | null>(null);
+    const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+    const selectedPersona = findPersona(personas, settings.personaId);
+
+    useEffect(() => {
+        let cancelled = false;
+        listVoices().then(list => { if (!cancelled) setVoices(list); });
+        return () => { cancelled = true; };
+    }, []);
+
+    const update = (patch: Partial<ChatSettings>) => onChangeSettings({ ...settings, ...patch });
+
+    const handleSavePersona = () => {
+        if (!editingPersona || !editingPersona.name.trim() || !editingPersona.systemInstruction.trim()) return;
+        const exists = personas.some(persona => persona.id === editingPersona.id);
+        onChangePersonas(exists
+            ? personas.map(persona => persona.id === editingPersona.id ? editingPersona : persona)
+            : [...personas, editingPersona]);
+        update({ personaId: editingPersona.id });
+        setEditingPersona(null);
+    };
+
+    const handleDeletePersona = (persona: Persona) => {
+        if (!window.confirm(`Delete persona "${persona.name}"?`)) return;
+        onChangePersonas(personas.filter(p => p.id !== persona.id));
+        if (settings.personaId === persona.id) update({ personaId: undefined });
+    };
+
+    const inputClass = "w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+    return (
+        <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+            <div className="w-full max-w-lg max-h-full overflow-y-auto p-6 space-y-5 bg-gray-800 rounded-lg shadow-lg" onClick={(e) => e.stopPropagation()} role="dialog" aria-label="Chat settings">
+                <div className="flex items-center justify-between">
+                    <h2 className="text-xl font-bold text-cyan-400">Chat Settings</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close settings"><XCircleIcon /></button>
+                </div>
+
+                <label className="block space-y-1">
+                    <span className="text-sm text-gray-300">Model</span>
+                    <select value={settings.model} onChange={(e) => update({ model: e.target.value })} className={inputClass}>
+                        {AVAILABLE_MODELS.map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+                    </select>
+                </label>
+
+                <div className="grid grid-cols-2 gap-4">
+                    <label className="block space-y-1">
+                        <span className="text-sm text-gray-300">Temperature (0–2)</span>
+                        <input type="number" min={0} max={2} step={0.1} value={settings.temperature ?? ''} placeholder="Default" onChange={(e) => update({ temperature: parseOptionalNumber(e.target.value) })} className={inputClass} />
+                    </label>
+                    <label className="block space-y-1">
+                        <span className="text-sm text-gray-300">Top P (0–1)</span>
+                        <input type="number" min={0} max={1} step={0.05} value={settings.topP ?? ''} placeholder="Default" onChange={(e) => update({ topP: parseOptionalNumber(e.target.value) })} className={inputClass} />
+                    </label>
+                    <label className="block space-y-1">
+                        <span className="text-sm text-gray-300">Max output tokens</span>
+                        <input type="number" min={1} step={1} value={settings.maxOutputTokens ?? ''} placeholder="Default" onChange={(e) => update({ maxOutputTokens: parseOptionalNumber(e.target.value) })} className={inputClass} />
+                    </label>
+                    <label className="block space-y-1">
+                        <span className="text-sm text-gray-300">Thinking budget</span>
+                        <input type="number" min={-1} step={1} value={settings.thinkingBudget ?? ''} placeholder="Default" onChange={(e) => update({ thinkingBudget: parseOptionalNumber(e.target.value) })} className={inputClass} />
+                        <span className="text-xs text-gray-400">0 turns thinking off, -1 lets the model decide.</span>
+                    </label>
+                    <label className="block space-y-1 col-span-2">
+                        <span className="text-sm text-gray-300">Summarise context after (tokens)</span>
+                        <input type="number" min={1000} step={1000} value={settings.summarizeAtTokens ?? ''} placeholder={String(DEFAULT_SUMMARIZE_AT_TOKENS)} onChange={(e) => update({ summarizeAtTokens: parseOptionalNumber(e.target.value) })} className={inputClass} />
+                        <span className="text-xs text-gray-400">Older turns are condensed into an editable summary once the context reaches this size.</span>
+                    </label>
+                </div>
+
+                <fieldset className="space-y-2">
+                    <legend className="text-sm text-gray-300">Tools</legend>
+                    {BUILT_IN_TOOLS.map(tool => {
+                        const name = tool.declaration.name;
+                        const enabled = settings.enabledTools?.includes(name) ?? false;
+                        return (
+                            <label key={name} className="flex items-start gap-2 text-sm">
+                                <input
+                                    type="checkbox"
+                                    checked={enabled}
+                                    onChange={() => update({ enabledTools: enabled ? settings.enabledTools?.filter(n => n !== name) : [...(settings.enabledTools ?? []), name] })}
+                                    className="mt-1 accent-cyan-500"
+                                />
+                                <span>
+                                    {tool.label}{tool.requiresApproval && <span className="text-xs text-amber-300"> · asks before each use</span>}
+                                    <span className="block text-xs text-gray-400">{tool.declaration.description}</span>
+                                </span>
+                            </label>
+                        );
+                    })}
+                </fieldset>
+
+                {isSynthesisSupported && (
+                    <div className="grid grid-cols-2 gap-4">
+                        <label className="block space-y-1">
+                            <span className="text-sm text-gray-300">Reading voice</span>
+                            <select value={voiceSettings.voiceURI ?? ''} onChange={(e) => onChangeVoiceSettings({ ...voiceSettings, voiceURI: e.target.value || undefined })} className={inputClass}>
+                                <option value="">Browser default</option>
+                                {voices.map(voice => <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</option>)}
+                            </select>
+                        </label>
+                        <label className="block space-y-1">
+                            <span className="text-sm text-gray-300">Reading speed ({voiceSettings.rate.toFixed(1)}×)</span>
+                            <input type="range" min={0.5} max={2} step={0.1} value={voiceSettings.rate} onChange={(e) => onChangeVoiceSettings({ ...voiceSettings, rate: Number(e.target.value) })} className="w-full accent-cyan-500" />
+                        </label>
+                    </div>
+                )}
+
+                <div className="space-y-2">
+                    <span className="text-sm text-gray-300">Persona</span>
+                    <div className="flex gap-2">
+                        <select value={selectedPersona.id} onChange={(e) => update({ personaId: e.target.value })} className={inputClass}>
+                            {personas.map(persona => <option key={persona.id} value={persona.id}>{persona.name}</option>)}
+                        </select>
+                        <button onClick={() => setEditingPersona({ id: generateId(), name: '', systemInstruction: '' })} className="p-2 rounded-md hover:bg-gray-700" aria-label="New persona"><PlusIcon /></button>
+                        {selectedPersona.id !== DEFAULT_PERSONA_ID && (
+                            <>
+                                <button onClick={() => setEditingPersona(selectedPersona)} className="p-2 rounded-md hover:bg-gray-700" aria-label="Edit persona"><PencilIcon /></button>
+                                <button onClick={() => handleDeletePersona(selectedPersona)} className="p-2 rounded-md hover:bg-gray-700 hover:text-red-400" aria-label="Delete persona"><TrashIcon /></button>
+                            </>
+                        )}
+                    </div>
+                    {editingPersona ? (
+                        <div className="space-y-2 p-3 bg-gray-900/50 rounded-md">
+                            <input value={editingPersona.name} onChange={(e) => setEditingPersona({ ...editingPersona, name: e.target.value })} placeholder="Persona name" className={inputClass} aria-label="Persona name" />
+                            <textarea value={editingPersona.systemInstruction} onChange={(e) => setEditingPersona({ ...editingPersona, systemInstruction: e.target.value })} placeholder="System instruction" rows={5} className={`${inputClass} resize-y`} aria-label="System instruction" />
+                            <div className="flex justify-end gap-2 text-sm">
+                                <button onClick={() => setEditingPersona(null)} className="px-3 py-1 rounded-md hover:bg-gray-700">Cancel</button>
+                                <button onClick={handleSavePersona} className="px-3 py-1 rounded-md bg-cyan-600 hover:bg-cyan-700">Save persona</button>
+                            </div>
+                        </div>
+                    ) : (
+                        <p className="text-sm text-gray-400 whitespace-pre-wrap max-h-32 overflow-y-auto">{selectedPersona.systemInstruction}</p>
+                    )}
+                </div>
+
+                <button onClick={() => onChangeSettings({ ...DEFAULT_CHAT_SETTINGS, personaId: settings.personaId })} className="text-sm text-cyan-400 hover:text-cyan-300 hover:underline">
+                    Reset generation settings
+                </button>
+            </div>
+        </div>
+    );
+};
+
+// --- Profile Panel ---
+const ProfilePanel: React.FC<{
+    user: firebase.User;
+    onUpgrade: () => void;
+    onClose: () => void;
+}> = ({ user, onUpgrade, onClose }) => {
+    const [currentPassword, setCurrentPassword] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [deletePassword, setDeletePassword] = useState('');
+    const [confirmText, setConfirmText] = useState('');
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+    const hasPassword = isPasswordUser(user);
+
+    const run = async (action: () => Promise<void>, success: string) => {
+        setIsWorking(true);
+        setMessage(null);
+        try {
+            await action();
+            setMessage({ text: success, isError: false });
+        } catch (err) {
+            setMessage({ text: authErrorMessage(err), isError: true });
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleChangePassword = async (e: FormEvent) => {
+        e.preventDefault();
+        await run(() => changePassword(currentPassword, newPassword), 'Your password has been changed.');
+        setCurrentPassword('');
+        setNewPassword('');
+    };
+
+    // onAuthStateChanged signs the app out once the account is gone.
+    const handleDeleteAccount = (e: FormEvent) => {
+        e.preventDefault();
+        run(() => deleteAccount(hasPassword ? deletePassword : undefined), 'Your account has been deleted.');
+    };
+
+    const inputClass = "w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+    return (
+        <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+            <div className="w-full max-w-lg max-h-full overflow-y-auto p-6 space-y-5 bg-gray-800 rounded-lg shadow-lg" onClick={(e) => e.stopPropagation()} role="dialog" aria-label="Profile">
+                <div className="flex items-center justify-between">
+                    <h2 className="text-xl font-bold text-cyan-400">Profile</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close profile"><XCircleIcon /></button>
+                </div>
+
+                {message && <p className={`text-sm p-2 rounded-md ${message.isError ? 'text-red-400 bg-red-900/50' : 'text-green-300 bg-green-900/40'}`} role="status">{message.text}</p>}
+
+                {user.isAnonymous ? (
+                    <div className="space-y-2">
+                        <p className="text-gray-300">You're chatting as a guest. Your history is kept only in this browser.</p>
+                        <button onClick={onUpgrade} className="px-4 py-2 rounded-md bg-cyan-600 hover:bg-cyan-700">Create an account to keep it</button>
+                    </div>
+                ) : (
+                    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                        <dt className="text-gray-400">Email</dt>
+                        <dd>{user.email}{user.emailVerified && <span className="ml-2 text-xs text-green-400">verified</span>}</dd>
+                        <dt className="text-gray-400">Signs in with</dt>
+                        <dd>{user.providerData.map(provider => provider?.providerId === 'google.com' ? 'Google' : 'Email and password').join(', ')}</dd>
+                    </dl>
+                )}
+
+                {hasPassword && (
+                    <form onSubmit={handleChangePassword} className="space-y-2">
+                        <h3 className="text-sm font-semibold text-gray-300">Change password</h3>
+                        <input type="password" value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} placeholder="Current password" required className={inputClass} aria-label="Current password" autoComplete="current-password" />
+                        <input type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} placeholder="New password" required minLength={6} className={inputClass} aria-label="New password" autoComplete="new-password" />
+                        <button type="submit" disabled={isWorking} className="px-4 py-2 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50">Update password</button>
+                    </form>
+                )}
+
+                <form onSubmit={handleDeleteAccount} className="space-y-2 p-3 border border-red-900 rounded-md">
+                    <h3 className="text-sm font-semibold text-red-400">Delete account</h3>
+                    <p className="text-sm text-gray-400">Permanently deletes your account and every conversation, persona and attachment stored for it, on this device and in the cloud.</p>
+                    {hasPassword && (
+                        <input type="password" value={deletePassword} onChange={(e) => setDeletePassword(e.target.value)} placeholder="Current password" required className={inputClass} aria-label="Password to confirm deletion" autoComplete="current-password" />
+                    )}
+                    <input value={confirmText} onChange={(e) => setConfirmText(e.target.value)} placeholder='Type "DELETE" to confirm' className={inputClass} aria-label="Deletion confirmation" />
+                    <button type="submit" disabled={isWorking || confirmText !== 'DELETE'} className="px-4 py-2 rounded-md bg-red-700 hover:bg-red-600 disabled:opacity-50">Delete my account</button>
                 </form>
-                <div className="text-center">
-                    <button onClick={toggleView} className="text-sm text-cyan-400 hover:text-cyan-300 hover:underline">
-                        {isLoginView ? "Don't have an account? Sign Up" : "Already have an account? Log In"}
+            </div>
+        </div>
+    );
+};
+
+// --- Search Palette ---
+const DATE_FILTERS = [
+    { label: 'Any time', days: 0 },
+    { label: 'Past week', days: 7 },
+    { label: 'Past month', days: 30 },
+    { label: 'Past year', days: 365 },
+];
+
+const SearchPalette: React.FC<{
+    onSearch: (query: string, filters: SearchFilters) => SearchResult[];
+    onSelect: (result: SearchResult) => void;
+    onClose: () => void;
+}> = ({ onSearch, onSelect, onClose }) => {
+    const [query, setQuery] = useState('');
+    const [role, setRole] = useState<'' | ChatMessage['role']>('');
+    const [days, setDays] = useState(0);
+    const [activeIndex, setActiveIndex] = useState(0);
+
+    const results = onSearch(query, {
+        role: role || undefined,
+        since: days > 0 ? Date.now() - days * 24 * 60 * 60 * 1000 : undefined,
+    });
+
+    useEffect(() => setActiveIndex(0), [query, role, days]);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            onClose();
+        } else if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setActiveIndex(index => Math.min(index + 1, results.length - 1));
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setActiveIndex(index => Math.max(index - 1, 0));
+        } else if (e.key === 'Enter' && results[activeIndex]) {
+            e.preventDefault();
+            onSelect(results[activeIndex]);
+        }
+    };
+
+    const selectClass = "px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+    return (
+        <div className="fixed inset-0 z-20 flex items-start justify-center bg-black/60 p-4 pt-[10vh]" onClick={onClose}>
+            <div className="w-full max-w-2xl bg-gray-800 rounded-lg shadow-lg overflow-hidden" onClick={(e) => e.stopPropagation()} onKeyDown={handleKeyDown} role="dialog" aria-label="Search conversations">
+                <div className="p-3 space-y-2 border-b border-gray-700">
+                    <input
+                        autoFocus
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Search all conversations..."
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                        aria-label="Search query"
+                    />
+                    <div className="flex gap-2">
+                        <select value={role} onChange={(e) => setRole(e.target.value as '' | ChatMessage['role'])} className={selectClass} aria-label="Filter by role">
+                            <option value="">Everyone</option>
+                            <option value="user">You</option>
+                            <option value="model">Gemini</option>
+                        </select>
+                        <select value={days} onChange={(e) => setDays(Number(e.target.value))} className={selectClass} aria-label="Filter by date">
+                            {DATE_FILTERS.map(filter => <option key={filter.days} value={filter.days}>{filter.label}</option>)}
+                        </select>
+                    </div>
+                </div>
+                <ul className="max-h-[60vh] overflow-y-auto" role="listbox">
+                    {query.trim() && results.length === 0 && <li className="p-4 text-sm text-gray-400">No matches.</li>}
+                    {results.map((result, index) => (
+                        <li
+                            key={`${result.conversationId}:${result.messageId}`}
+                            onClick={() => onSelect(result)}
+                            onMouseEnter={() => setActiveIndex(index)}
+                            className={`px-4 py-3 cursor-pointer border-b border-gray-700/50 ${index === activeIndex ? 'bg-gray-700' : ''}`}
+                            role="option"
+                            aria-selected={index === activeIndex}
+                        >
+                            <div className="flex justify-between gap-2 text-xs text-gray-400">
+                                <span className="truncate">{result.conversationTitle} · {result.role === 'user' ? 'You' : 'Gemini'}</span>
+                                <span className="flex-shrink-0">{new Date(result.createdAt).toLocaleDateString()}</span>
+                            </div>
+                            <p className="mt-1 text-sm text-gray-200">
+                                {result.snippet.map((segment, i) => segment.highlight
+                                    ? <mark key={i} className="bg-yellow-400/30 text-yellow-200 rounded-sm">{segment.text}</mark>
+                                    : <span key={i}>{segment.text}</span>)}
+                            </p>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        </div>
+    );
+};
+
+// --- Usage Dashboard ---
+const USAGE_RANGES = [
+    { label: 'This month', since: () => startOfMonth() },
+    { label: 'Past 30 days', since: () => Date.now() - 30 * 24 * 60 * 60 * 1000 },
+    { label: 'All time', since: () => 0 },
+];
+
+const UsageTable: React.FC<{ title: string; rows: UsageTotals[]; onSelect?: (key: string) => void }> = ({ title, rows, onSelect }) => (
+    <section className="space-y-1">
+        <h3 className="text-sm text-gray-300">{title}</h3>
+        {rows.length === 0 ? <p className="text-sm text-gray-500">No usage recorded.</p> : (
+            <div className="max-h-56 overflow-y-auto">
+                <table className="w-full text-sm">
+                    <thead className="text-xs text-gray-400 text-right">
+                        <tr><th className="text-left font-normal py-1"></th><th className="font-normal">Requests</th><th className="font-normal">Input</th><th className="font-normal">Output</th><th className="font-normal">Thinking</th><th className="font-normal">Cost</th></tr>
+                    </thead>
+                    <tbody className="text-right tabular-nums">
+                        {rows.map(row => (
+                            <tr key={row.key} className="border-t border-gray-700/50">
+                                <td className="text-left py-1 max-w-[12rem] truncate">
+                                    {onSelect && row.key !== DELETED_CONVERSATIONS_KEY ? <button onClick={() => onSelect(row.key)} className="hover:text-cyan-300 hover:underline truncate max-w-full">{row.label}</button> : row.label}
+                                </td>
+                                <td>{row.requests}</td>
+                                <td>{formatTokenCount(row.promptTokens)}</td>
+                                <td>{formatTokenCount(row.responseTokens)}</td>
+                                <td>{formatTokenCount(row.thinkingTokens)}</td>
+                                <td>{formatCost(row.cost)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        )}
+    </section>
+);
+
+const UsageDashboard: React.FC<{
+    usageLog: UsageLogEntry[];
+    conversations: Conversation[];
+    settings: UsageSettings;
+    onChangeSettings: (settings: UsageSettings) => void;
+    onSelectConversation: (id: string) => void;
+    onClose: () => void;
+}> = ({ usageLog, conversations, settings, onChangeSettings, onSelectConversation, onClose }) => {
+    const [rangeIndex, setRangeIndex] = useState(0);
+    const summary = useMemo(
+        () => summarizeUsage(usageLog, conversations, settings.prices, USAGE_RANGES[rangeIndex].since()),
+        [usageLog, conversations, settings.prices, rangeIndex],
+    );
+    const monthCost = useMemo(() => monthToDateCost(usageLog, settings.prices), [usageLog, settings.prices]);
+    const budget = settings.monthlyBudget;
+    const modelIds = [...new Set([...AVAILABLE_MODELS.map(model => model.id), ...Object.keys(settings.prices)])];
+
+    const updatePrice = (model: string, patch: Partial<ModelPrice>) => {
+        const current = settings.prices[model] ?? { input: 0, output: 0 };
+        onChangeSettings({ ...settings, prices: { ...settings.prices, [model]: { ...current, ...patch } } });
+    };
+
+    const inputClass = "w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+    return (
+        <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+            <div className="w-full max-w-3xl max-h-full overflow-y-auto p-6 space-y-5 bg-gray-800 rounded-lg shadow-lg" onClick={(e) => e.stopPropagation()} role="dialog" aria-label="Usage">
+                <div className="flex items-center justify-between gap-4">
+                    <h2 className="text-xl font-bold text-cyan-400">Usage</h2>
+                    <select value={rangeIndex} onChange={(e) => setRangeIndex(Number(e.target.value))} className="ml-auto px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-sm" aria-label="Period">
+                        {USAGE_RANGES.map((range, index) => <option key={range.label} value={index}>{range.label}</option>)}
+                    </select>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close usage"><XCircleIcon /></button>
+                </div>
+
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+                    {[
+                        { label: 'Estimated cost', value: formatCost(summary.total.cost) },
+                        { label: 'Input tokens', value: formatTokenCount(summary.total.promptTokens) },
+                        { label: 'Output tokens', value: formatTokenCount(summary.total.responseTokens) },
+                        { label: 'Thinking tokens', value: formatTokenCount(summary.total.thinkingTokens) },
+                    ].map(stat => (
+                        <div key={stat.label} className="p-3 bg-gray-900/50 rounded-md">
+                            <p className="text-lg font-semibold">{stat.value}</p>
+                            <p className="text-xs text-gray-400">{stat.label}</p>
+                        </div>
+                    ))}
+                </div>
+
+                <section className="space-y-2">
+                    <div className="flex items-end gap-3">
+                        <label className="block space-y-1">
+                            <span className="text-sm text-gray-300">Monthly budget ($)</span>
+                            <input type="number" min={0} step={1} value={budget ?? ''} placeholder="None" onChange={(e) => onChangeSettings({ ...settings, monthlyBudget: parseOptionalNumber(e.target.value) })} className={`${inputClass} w-32`} />
+                        </label>
+                        <p className={`text-sm pb-1 ${budget !== undefined && monthCost > budget ? 'text-red-400' : 'text-gray-400'}`}>
+                            {formatCost(monthCost)} spent this month{budget !== undefined ? ` of ${formatCost(budget)}` : ''}
+                        </p>
+                    </div>
+                    {budget !== undefined && budget > 0 && (
+                        <div className="h-2 bg-gray-700 rounded-full overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={budget} aria-valuenow={monthCost}>
+                            <div className={`h-full ${monthCost > budget ? 'bg-red-500' : monthCost > budget * 0.8 ? 'bg-amber-400' : 'bg-cyan-500'}`} style={{ width: `${Math.min(100, (monthCost / budget) * 100)}%` }} />
+                        </div>
+                    )}
+                </section>
+
+                <UsageTable title="By model" rows={summary.byModel} />
+                <UsageTable title="By conversation" rows={summary.byConversation} onSelect={(id) => { onClose(); onSelectConversation(id); }} />
+                <UsageTable title="By day" rows={summary.byDay} />
+
+                <section className="space-y-2">
+                    <h3 className="text-sm text-gray-300">Prices (US$ per million tokens; thinking is billed as output)</h3>
+                    {modelIds.map(model => (
+                        <div key={model} className="grid grid-cols-[1fr_6rem_6rem] items-center gap-2 text-sm">
+                            <span className="truncate">{AVAILABLE_MODELS.find(m => m.id === model)?.label ?? model}</span>
+                            <input type="number" min={0} step={0.01} value={settings.prices[model]?.input ?? 0} onChange={(e) => updatePrice(model, { input: Number(e.target.value) || 0 })} className={inputClass} aria-label={`${model} input price`} />
+                            <input type="number" min={0} step={0.01} value={settings.prices[model]?.output ?? 0} onChange={(e) => updatePrice(model, { output: Number(e.target.value) || 0 })} className={inputClass} aria-label={`${model} output price`} />
+                        </div>
+                    ))}
+                    <button onClick={() => onChangeSettings({ ...settings, prices: DEFAULT_PRICES })} className="text-sm text-cyan-400 hover:text-cyan-300 hover:underline">Reset prices</button>
+                </section>
+
+                <p className="text-xs text-gray-500">Costs are estimates from the token counts the model reports, including summaries of long chats. Replies sent before usage tracking aren't counted.</p>
+            </div>
+        </div>
+    );
+};
+
+// --- Prompt Templates ---
+/** Completions for a `/` command being typed in the chat input; the input keeps focus and drives it. */
+const CommandPalette: React.FC<{
+    suggestions: CommandSuggestion[];
+    activeIndex: number;
+    onHover: (index: number) => void;
+    onPick: (suggestion: CommandSuggestion) => void;
+}> = ({ suggestions, activeIndex, onHover, onPick }) => (
+    <ul className="absolute bottom-full left-4 right-4 mb-2 max-h-64 overflow-y-auto bg-gray-800 border border-gray-700 rounded-lg shadow-lg" role="listbox" aria-label="Commands">
+        {suggestions.map((suggestion, index) => (
+            <li
+                key={suggestion.value}
+                // Keeps focus in the input.
+                onMouseDown={(e) => { e.preventDefault(); onPick(suggestion); }}
+                onMouseEnter={() => onHover(index)}
+                className={`flex items-baseline gap-3 px-4 py-2 cursor-pointer ${index === activeIndex ? 'bg-gray-700' : ''}`}
+                role="option"
+                aria-selected={index === activeIndex}
+            >
+                <span className="font-mono text-sm text-cyan-300">{suggestion.label}</span>
+                <span className="text-sm text-gray-400 truncate">{suggestion.description}</span>
+            </li>
+        ))}
+    </ul>
+);
+
+const TemplateFillForm: React.FC<{
+    template: PromptTemplate;
+    onInsert: (text: string) => void;
+    onCancel: () => void;
+}> = ({ template, onInsert, onCancel }) => {
+    const variables = templateVariables(template.body);
+    const [values, setValues] = useState<Record<string, string>>({});
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        onInsert(fillTemplate(template.body, values));
+    };
+
+    return (
+        <form onSubmit={handleSubmit} onKeyDown={(e) => { if (e.key === 'Escape') onCancel(); }} className="mb-2 p-3 space-y-2 bg-gray-900/60 rounded-md" aria-label={`Fill in ${template.title}`}>
+            <p className="text-sm text-gray-300"><span className="font-mono text-cyan-300">/{template.command}</span> · {template.title}</p>
+            {variables.map((name, index) => (
+                <label key={name} className="block space-y-1">
+                    <span className="text-xs text-gray-400">{name}</span>
+                    <textarea
+                        autoFocus={index === 0}
+                        value={values[name] ?? ''}
+                        onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                        onKeyDown={(e) => { if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) handleSubmit(e); }}
+                        rows={2}
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md resize-y focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                    />
+                </label>
+            ))}
+            <div className="flex justify-end gap-2 text-sm">
+                <button type="button" onClick={onCancel} className="px-3 py-1 rounded-md hover:bg-gray-700">Cancel</button>
+                <button type="submit" className="px-3 py-1 rounded-md bg-cyan-600 hover:bg-cyan-700">Insert</button>
+            </div>
+        </form>
+    );
+};
+
+const PromptLibraryPanel: React.FC<{
+    templates: PromptTemplate[];
+    onChange: (templates: PromptTemplate[]) => void;
+    onUse: (template: PromptTemplate) => void;
+    onClose: () => void;
+}> = ({ templates, onChange, onUse, onClose }) => {
+    const [editing, setEditing] = useState<PromptTemplate | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const handleSave = () => {
+        if (!editing) return;
+        const command = normalizeCommand(editing.command);
+        if (!command || !editing.body.trim()) {
+            setError('A template needs a command and a prompt.');
+            return;
+        }
+        if (isReservedCommand(command) || templates.some(t => t.command === command && t.id !== editing.id)) {
+            setError(`/${command} is already taken.`);
+            return;
+        }
+        const saved = { ...editing, command, title: editing.title.trim() || command };
+        const exists = templates.some(t => t.id === saved.id);
+        onChange(exists ? templates.map(t => t.id === saved.id ? saved : t) : [...templates, saved]);
+        setEditing(null);
+        setError(null);
+    };
+
+    const handleDelete = (template: PromptTemplate) => {
+        if (!window.confirm(`Delete template "/${template.command}"?`)) return;
+        onChange(templates.filter(t => t.id !== template.id));
+    };
+
+    const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            // Imported templates can't take a built-in's name either.
+            const imported = parseTemplatesJson(await file.text()).filter(t => !isReservedCommand(t.command));
+            onChange(mergeTemplates(templates, imported));
+            setError(null);
+        } catch (err) {
+            setError(err instanceof TemplateImportError ? err.message : 'Could not read that file.');
+        }
+    };
+
+    const inputClass = "w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+    return (
+        <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+            <div className="w-full max-w-lg max-h-full overflow-y-auto p-6 space-y-4 bg-gray-800 rounded-lg shadow-lg" onClick={(e) => e.stopPropagation()} role="dialog" aria-label="Prompt templates">
+                <div className="flex items-center justify-between">
+                    <h2 className="text-xl font-bold text-cyan-400">Prompt Templates</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close templates"><XCircleIcon /></button>
+                </div>
+                <p className="text-sm text-gray-400">Type <span className="font-mono">/</span> in the chat box to use one. Write <span className="font-mono">{'{{name}}'}</span> for parts you fill in each time.</p>
+                {error && <p className="text-sm text-red-400 bg-red-900/50 p-2 rounded-md" role="alert">{error}</p>}
+
+                {editing ? (
+                    <div className="space-y-2 p-3 bg-gray-900/50 rounded-md">
+                        <div className="grid grid-cols-2 gap-2">
+                            <input value={editing.command} onChange={(e) => setEditing({ ...editing, command: e.target.value })} placeholder="command" className={`${inputClass} font-mono`} aria-label="Command" />
+                            <input value={editing.title} onChange={(e) => setEditing({ ...editing, title: e.target.value })} placeholder="Title" className={inputClass} aria-label="Title" />
+                        </div>
+                        <textarea value={editing.body} onChange={(e) => setEditing({ ...editing, body: e.target.value })} placeholder="Prompt, e.g. Summarise this for {{audience}}: {{text}}" rows={6} className={`${inputClass} resize-y`} aria-label="Prompt" />
+                        <div className="flex justify-end gap-2 text-sm">
+                            <button onClick={() => { setEditing(null); setError(null); }} className="px-3 py-1 rounded-md hover:bg-gray-700">Cancel</button>
+                            <button onClick={handleSave} className="px-3 py-1 rounded-md bg-cyan-600 hover:bg-cyan-700">Save template</button>
+                        </div>
+                    </div>
+                ) : (
+                    <ul className="divide-y divide-gray-700">
+                        {templates.length === 0 && <li className="py-3 text-sm text-gray-400">No templates yet.</li>}
+                        {templates.map(template => (
+                            <li key={template.id} className="flex items-center gap-2 py-2">
+                                <button onClick={() => onUse(template)} className="flex-1 min-w-0 text-left hover:text-cyan-300" title="Use this template">
+                                    <span className="font-mono text-sm text-cyan-300">/{template.command}</span>
+                                    <span className="block text-sm text-gray-300 truncate">{template.title}</span>
+                                </button>
+                                <button onClick={() => setEditing(template)} className="p-2 rounded-md hover:bg-gray-700" aria-label={`Edit /${template.command}`}><PencilIcon /></button>
+                                <button onClick={() => handleDelete(template)} className="p-2 rounded-md hover:bg-gray-700 hover:text-red-400" aria-label={`Delete /${template.command}`}><TrashIcon /></button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                    <button onClick={() => setEditing({ id: generateId(), command: '', title: '', body: '' })} className="flex items-center gap-1 px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600">
+                        <PlusIcon />
+                        <span>New template</span>
                     </button>
+                    <button onClick={() => importInputRef.current?.click()} className="text-cyan-400 hover:text-cyan-300 hover:underline">Import JSON</button>
+                    <button onClick={() => downloadFile('prompt-templates.json', templatesToJson(templates), 'application/json')} disabled={templates.length === 0} className="text-cyan-400 hover:text-cyan-300 hover:underline disabled:opacity-50">Export JSON</button>
+                    <input type="file" ref={importInputRef} onChange={handleImport} className="hidden" accept="application/json,.json" />
                 </div>
             </div>
         </div>
     );
 };
 
+// --- Chat Component ---
+const EXPORT_FORMATS: Record<string, 'markdown' | 'json' | 'html'> = { md: 'markdown', markdown: 'markdown', json: 'json', html: 'html' };
 
-// --- Helper Functions & Components ---
-const fileToBase64 = (file: File): Promise<string> =>
-    new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve((reader.result as string).split(',')[1]);
-        reader.onerror = (error) => reject(error);
-    });
-
-const MessageRenderer: React.FC<{ content: string }> = ({ content }) => (
-    <div className="prose prose-invert prose-lg md:prose-xl max-w-none p-3 font-serif">
-        <ReactMarkdown
-            remarkPlugins={[remarkGfm]}
-            components={{
-                code({ node, className, children, ...props }) {
-                    const match = /language-(\w+)/.exec(className || '');
-                    return match ? (
-                        <SyntaxHighlighter style={vscDarkPlus} language={match[1]} PreTag="div">
-                            {String(children).replace(/\n$/, '')}
-                        </SyntaxHighlighter>
-                    ) : (
-                        <code className="bg-gray-800/50 px-1 py-0.5 rounded-sm font-mono text-base" {...props}>
-                            {children}
-                        </code>
-                    );
-                },
-            }}
-        >
-            {content}
-        </ReactMarkdown>
-    </div>
-);
+interface PendingAttachment {
+    id: string;
+    file: File;
+    kind: AttachmentKind;
+    /** Object URL for image thumbnails; revoked when the attachment is removed or sent. */
+    previewUrl?: string;
+}
 
-// --- Chat Component ---
 const ChatComponent: React.FC<{
     user: firebase.User;
     onLogout: () => void;
-    messages: ChatMessage[];
-    setMessages: React.Dispatch<React.SetStateAction<ChatMessage[]>>;
+    conversation: Conversation;
+    onUpdateConversation: (updater: (conversation: Conversation) => Conversation) => void;
     onNewChat: () => void;
-}> = ({ user, onLogout, messages, setMessages, onNewChat }) => {
+    personas: Persona[];
+    onChangePersonas: (personas: Persona[]) => void;
+    conversations: Conversation[];
+    activeConversationId: string | null;
+    onSelectConversation: (id: string) => void;
+    onRenameConversation: (id: string, title: string) => void;
+    onTogglePinConversation: (id: string) => void;
+    onDeleteConversation: (id: string) => void;
+    onImportConversation: (file: File) => Promise<void>;
+    onSearch: (query: string, filters: SearchFilters) => SearchResult[];
+    onOpenSearchResult: (result: SearchResult) => void;
+    /** A message to scroll to and flash; a new object re-triggers the same message. */
+    focusRequest: { messageId: string } | null;
+    onUpgradeAccount: () => void;
+    promptTemplates: PromptTemplate[];
+    onChangePromptTemplates: (templates: PromptTemplate[]) => void;
+    onClearConversation: () => void;
+}> = ({ user, onLogout, onUpgradeAccount, conversation, onUpdateConversation, onNewChat, onClearConversation, personas, onChangePersonas, promptTemplates, onChangePromptTemplates, conversations, activeConversationId, onSelectConversation, onRenameConversation, onTogglePinConversation, onDeleteConversation, onImportConversation, onSearch, onOpenSearchResult, focusRequest }) => {
     const [input, setInput] = useState('');
+    const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+    const [isSearchOpen, setIsSearchOpen] = useState(false);
+    const [isProfileOpen, setIsProfileOpen] = useState(false);
+    const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+    const [isUsageOpen, setIsUsageOpen] = useState(false);
+    const [usageSettings, setUsageSettings] = useState<UsageSettings>(() => loadUsageSettings(user.uid));
+    const [usageLog, setUsageLog] = useState<UsageLogEntry[]>(() => loadUsageLog(user.uid, conversations));
+    const [isBudgetWarningDismissed, setIsBudgetWarningDismissed] = useState(false);
+    const [fillingTemplate, setFillingTemplate] = useState<PromptTemplate | null>(null);
+    const [paletteIndex, setPaletteIndex] = useState(0);
+    /** Set by Escape; the palette stays closed until the input changes. */
+    const [isPaletteDismissed, setIsPaletteDismissed] = useState(false);
+    const [commandError, setCommandError] = useState<string | null>(null);
+    const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
-    const [image, setImage] = useState<File | null>(null);
-    const [imagePreview, setImagePreview] = useState<string | null>(null);
+    const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+    const [isDragging, setIsDragging] = useState(false);
     const [isListening, setIsListening] = useState(false);
+    const [attachmentError, setAttachmentError] = useState<string | null>(null);
+    const [isSummarizing, setIsSummarizing] = useState(false);
+    const [contextTokens, setContextTokens] = useState<number | null>(null);
+    const [isVoiceMode, setIsVoiceMode] = useState(false);
+    const [voiceTranscript, setVoiceTranscript] = useState('');
+    const [voiceError, setVoiceError] = useState<string | null>(null);
+    /** An utterance waiting for the interrupted reply to stop before it is sent. */
+    const [queuedUtterance, setQueuedUtterance] = useState<string | null>(null);
+    const [speakingMessageId, setSpeakingMessageId] = useState<string | null>(null);
+    const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(() => loadVoiceSettings(user.uid));
+    /** The last reply that failed, shown as a banner rather than saved into the conversation. */
+    const [replyError, setReplyError] = useState<{ error: ChatError; promptId: string } | null>(null);
+    const [retryNotice, setRetryNotice] = useState<string | null>(null);
 
-    const geminiChat = useRef<GeminiChat | null>(null);
+    const abortController = useRef<AbortController | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
-    const speechRecognition = useRef<any>(null);
+    const inputRef = useRef<HTMLTextAreaElement>(null);
+    const speechRecognition = useRef<SpeechRecognition | null>(null);
+    /** Context sizes already known, keyed by `contextKey`, so switching branches doesn't recount. */
+    const tokenCounts = useRef(new Map<string, number>());
+    const toolApprovals = useRef(new Map<string, (approved: boolean) => void>());
+    /**
+     * The session behind the last completed reply. It already holds the history up to
+     * `leafId`, so a follow-up on the same branch with the same setup reuses it instead
+     * of rebuilding (and re-reading every attachment).
+     */
+    const chatSession = useRef<{ key: string; leafId: string; session: ChatSession } | null>(null);
+    const mainRef = useRef<HTMLElement>(null);
+    const voiceRecognizer = useRef<VoiceRecognizer | null>(null);
+    // Read when a reply finishes, which may be after voice mode was switched off.
+    const isVoiceModeRef = useRef(false);
+    isVoiceModeRef.current = isVoiceMode;
+    // Long-running replies read this instead of the `conversation` they started with.
+    const conversationRef = useRef(conversation);
+    conversationRef.current = conversation;
 
+    const thread = getThread(conversation);
+    const commandSuggestions = useMemo(
+        () => (isPaletteDismissed || isLoading ? [] : suggestCommands(input, promptTemplates)),
+        [input, promptTemplates, isPaletteDismissed, isLoading],
+    );
+    const siblingGroups = useMemo(() => groupSiblings(conversation), [conversation.messages]);
+    const virtualList = useVirtualList(thread.map(msg => msg.id), mainRef);
+    const settings = conversation.settings ?? DEFAULT_CHAT_SETTINGS;
+    const summarizeAt = settings.summarizeAtTokens ?? DEFAULT_SUMMARIZE_AT_TOKENS;
+    const activeSummary = findActiveSummary(conversation, thread)?.summary ?? null;
+
+    const contextKey = (leafId: string | null, summary: ContextSummary | null) =>
+        `${settings.model}|${leafId}|${summary?.id ?? ''}|${summary?.text ?? ''}`;
+    const currentContextKey = contextKey(conversation.currentLeafId, activeSummary);
+
+    // Counts the context when the last reply didn't report usage, e.g. after switching branch or editing a summary.
     useEffect(() => {
-        // Re-initialize chat with history. Image data is not persisted in history,
-        // so we only include messages with text to avoid errors.
-        const history = messages
-            .filter(msg => msg.text) // Ensure message has text
-            .map(msg => ({
-                role: msg.role,
-                parts: [{ text: msg.text! }], // The text part is guaranteed to exist
-            }));
-        geminiChat.current = createChat(history);
-    }, [messages]);
+        if (isLoading) return;
+        const known = tokenCounts.current.get(currentContextKey);
+        if (known !== undefined || thread.length === 0) {
+            setContextTokens(known ?? 0);
+            return;
+        }
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            try {
+                const tokens = await countTokens(await buildContext(conversation, thread), settings);
+                tokenCounts.current.set(currentContextKey, tokens);
+                if (!cancelled) setContextTokens(tokens);
+            } catch (error) {
+                console.error("Token count failed:", error);
+            }
+        }, 500);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [currentContextKey, isLoading]);
 
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-    }, [messages, isLoading]);
+    }, [conversation, isLoading]);
+
+    useEffect(() => setReplyError(null), [conversation.id]);
+
+    const monthCost = useMemo(() => monthToDateCost(usageLog, usageSettings.prices), [usageLog, usageSettings.prices]);
+    const logUsage = (usage: MessageUsage, id: string, kind: UsageLogEntry['kind'], conversationId: string) =>
+        setUsageLog(recordUsage(user.uid, { ...usage, id, kind, conversationId, createdAt: Date.now() }));
+    const isOverBudget = usageSettings.monthlyBudget !== undefined && monthCost > usageSettings.monthlyBudget;
+
+    // Declared after the scroll-to-bottom effect so a jump from search wins over it.
+    useEffect(() => {
+        if (!focusRequest) return;
+        const reveal = () => document.getElementById(`message-${focusRequest.messageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        if (document.getElementById(`message-${focusRequest.messageId}`)) {
+            reveal();
+        } else {
+            // Scrolled out of a long, virtualised list: jump near it, then centre it once rendered.
+            virtualList.scrollToItem(focusRequest.messageId);
+            requestAnimationFrame(() => requestAnimationFrame(reveal));
+        }
+        setHighlightedMessageId(focusRequest.messageId);
+        const timer = setTimeout(() => setHighlightedMessageId(null), 2000);
+        return () => clearTimeout(timer);
+    }, [focusRequest]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+                e.preventDefault();
+                setIsSearchOpen(true);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
     
     // Setup Speech Recognition
     useEffect(() => {
-        const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-        if(SpeechRecognition) {
-            speechRecognition.current = new SpeechRecognition();
-            speechRecognition.current.continuous = false;
-            speechRecognition.current.interimResults = false;
-            speechRecognition.current.onstart = () => setIsListening(true);
-            speechRecognition.current.onend = () => setIsListening(false);
-            speechRecognition.current.onresult = (event: any) => {
+        const recognition = createSpeechRecognition();
+        speechRecognition.current = recognition;
+        if(recognition) {
+            recognition.continuous = false;
+            recognition.interimResults = false;
+            recognition.onstart = () => setIsListening(true);
+            recognition.onend = () => setIsListening(false);
+            recognition.onresult = (event) => {
                 const transcript = event.results[0][0].transcript;
                 setInput(prev => prev ? `${prev} ${transcript}` : transcript);
             };
-            speechRecognition.current.onerror = (event: any) => {
+            recognition.onerror = (event) => {
                 console.error('Speech recognition error', event.error);
                 setIsListening(false);
             };
@@ -209,196 +1778,961 @@ const ChatComponent: React.FC<{
         }
     };
 
+    const readAloud = (messageId: string, text: string) => {
+        setSpeakingMessageId(messageId);
+        speak(text, voiceSettings).then(() => setSpeakingMessageId(current => current === messageId ? null : current));
+    };
+
+    const handleReadAloud = useStableCallback((message: ChatMessage) => {
+        if (speakingMessageId === message.id) {
+            stopSpeaking();
+            setSpeakingMessageId(null);
+        } else {
+            readAloud(message.id, message.text);
+        }
+    });
+
+    const handleChangeUsageSettings = (next: UsageSettings) => {
+        setUsageSettings(next);
+        saveUsageSettings(user.uid, next);
+        // A new budget deserves a fresh warning.
+        if (next.monthlyBudget !== usageSettings.monthlyBudget) setIsBudgetWarningDismissed(false);
+    };
+
+    const handleChangeVoiceSettings = (next: VoiceSettings) => {
+        setVoiceSettings(next);
+        saveVoiceSettings(user.uid, next);
+    };
+
+    // Talking over a reply cuts it short, whether it is still streaming or being read out.
+    const handleVoiceSpeechStart = useStableCallback(() => {
+        stopSpeaking();
+        setSpeakingMessageId(null);
+    });
+
+    const handleUtterance = useStableCallback((text: string) => {
+        if (isLoading) handleStop();
+        setQueuedUtterance(text);
+    });
+
+    useEffect(() => {
+        if (!isVoiceMode) return;
+        speechRecognition.current?.abort();
+        const recognizer = createVoiceRecognizer(navigator.language, {
+            onTranscript: setVoiceTranscript,
+            onSpeechStart: handleVoiceSpeechStart,
+            onUtterance: handleUtterance,
+            onError: (message) => {
+                setVoiceError(message);
+                setIsVoiceMode(false);
+            },
+        });
+        voiceRecognizer.current = recognizer;
+        setVoiceError(null);
+        recognizer.start();
+        return () => {
+            recognizer.stop();
+            voiceRecognizer.current = null;
+            setVoiceTranscript('');
+            stopSpeaking();
+            setSpeakingMessageId(null);
+        };
+    }, [isVoiceMode]);
+
+    // Sent from an effect so it goes out on the thread as it stands after any interrupted reply.
+    useEffect(() => {
+        if (queuedUtterance === null || isLoading) return;
+        setQueuedUtterance(null);
+        sendMessage(queuedUtterance);
+    }, [queuedUtterance, isLoading]);
+
     const TypingIndicator = () => (
         <div className="flex justify-start"><div className="max-w-xs md:max-w-md lg:max-w-2xl px-4 py-3 rounded-lg bg-gray-700"><div className="flex items-center justify-center space-x-1.5"><div className="w-2 h-2 bg-gray-400 rounded-full animate-pulse [animation-delay:-0.3s]"></div><div className="w-2 h-2 bg-gray-400 rounded-full animate-pulse [animation-delay:-0.15s]"></div><div className="w-2 h-2 bg-gray-400 rounded-full animate-pulse"></div></div></div></div>
     );
 
+    const addFiles = (files: File[]) => {
+        if (files.length === 0) return;
+        const { accepted, errors } = validateFiles(files, pendingAttachments);
+        setAttachmentError(errors.length > 0 ? errors.join(' ') : null);
+        setPendingAttachments(prev => [
+            ...prev,
+            ...accepted.map(({ file, kind }) => ({ id: generateId(), file, kind, previewUrl: kind === 'image' ? URL.createObjectURL(file) : undefined })),
+        ]);
+    };
+
+    const clearPendingAttachments = () => {
+        pendingAttachments.forEach(att => att.previewUrl && URL.revokeObjectURL(att.previewUrl));
+        setPendingAttachments([]);
+    };
+
     const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (file && file.type.startsWith('image/')) {
-            setImage(file);
-            setImagePreview(URL.createObjectURL(file));
-        } else {
-            setImage(null);
-            setImagePreview(null);
-        }
+        addFiles(Array.from(e.target.files ?? []));
+        e.target.value = '';
     };
 
-    const handleRemoveImage = () => {
-        setImage(null);
-        setImagePreview(null);
-        if (fileInputRef.current) fileInputRef.current.value = '';
-    }
+    const handleRemoveAttachment = (id: string) => {
+        setAttachmentError(null);
+        setPendingAttachments(prev => prev.filter(att => {
+            if (att.id === id && att.previewUrl) URL.revokeObjectURL(att.previewUrl);
+            return att.id !== id;
+        }));
+    };
+
+    const handlePaste = (e: ClipboardEvent<HTMLTextAreaElement>) => {
+        const files = Array.from(e.clipboardData.files);
+        if (files.length > 0) {
+            e.preventDefault();
+            addFiles(files);
+        }
+    };
 
-    const handleSubmit = async (e: FormEvent) => {
+    const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+        if (isLoading || !e.dataTransfer.types.includes('Files')) return;
         e.preventDefault();
-        if ((!input.trim() && !image) || isLoading) return;
+        setIsDragging(true);
+    };
 
-        const currentInput = input;
-        const currentImage = image;
-        const currentImagePreview = imagePreview;
+    const handleDragLeave = (e: DragEvent<HTMLDivElement>) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+    };
 
-        const userMessage: ChatMessage = { role: 'user', text: currentInput, imageUrl: currentImagePreview };
-        setMessages(prev => [...prev, userMessage]);
+    const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+        if (!isDragging) return;
+        e.preventDefault();
+        setIsDragging(false);
+        addFiles(Array.from(e.dataTransfer.files));
+    };
 
-        setInput('');
-        setImage(null);
-        setImagePreview(null);
-        if (fileInputRef.current) fileInputRef.current.value = '';
+    /**
+     * Streams a reply to `userMessage` into a new model message below it. The chat is
+     * rebuilt from `priorThread` each time, so the same prompt can be answered again
+     * on a different branch.
+     */
+    const streamReply = async (userMessage: ChatMessage, priorThread: ChatMessage[]) => {
+        const controller = new AbortController();
+        abortController.current = controller;
         setIsLoading(true);
 
-        try {
-            if (!geminiChat.current) throw new Error("Chat not initialized");
-            
-            const messageParts: Part[] = [];
-
-            if (currentImage) {
-                const base64Data = await fileToBase64(currentImage);
-                messageParts.push({
-                    inlineData: {
-                        mimeType: currentImage.type,
-                        data: base64Data
-                    }
-                });
-            }
-            
-            if (currentInput.trim()) {
-                messageParts.push({ text: currentInput });
+        let modelMessageId: string | null = null;
+        const appendReply = (text: string) => {
+            const modelMessage = createMessage({ role: 'model', text, parentId: userMessage.id });
+            modelMessageId = modelMessage.id;
+            onUpdateConversation(conv => appendMessage(conv, modelMessage));
+        };
+
+        const toolCalls: ToolCallRecord[] = [];
+        const saveToolCalls = () => {
+            const replyId: string = modelMessageId!;
+            const snapshot = [...toolCalls];
+            onUpdateConversation(conv => updateMessage(conv, replyId, { toolCalls: snapshot }));
+        };
+        const updateToolCall = (id: string, patch: Partial<ToolCallRecord>) => {
+            const index = toolCalls.findIndex(call => call.id === id);
+            toolCalls[index] = { ...toolCalls[index], ...patch };
+            saveToolCalls();
+        };
+
+        /** Runs one round of calls, asking first where needed, and returns the parts answering them. */
+        const runToolCalls = async (calls: FunctionCall[], round: number): Promise<ChatPart[]> => {
+            if (!modelMessageId) appendReply('');
+            const records: ToolCallRecord[] = calls.map(call => ({
+                id: generateId(),
+                callId: call.id,
+                name: call.name,
+                args: call.args ?? {},
+                status: findTool(call.name)?.requiresApproval ? 'awaiting-approval' : 'running',
+                round,
+            }));
+            toolCalls.push(...records);
+            saveToolCalls();
+
+            const responses: ChatPart[] = [];
+            for (const record of records) {
+                let outcome: { status: ToolCallRecord['status']; result: Record<string, unknown> };
+                if (controller.signal.aborted) {
+                    outcome = { status: 'denied', result: { error: 'The user stopped the response.' } };
+                } else if (record.status === 'awaiting-approval' && !await requestToolApproval(record.id, controller.signal)) {
+                    outcome = { status: 'denied', result: { error: 'The user declined this tool call.' } };
+                } else {
+                    updateToolCall(record.id, { status: 'running' });
+                    const { ok, result } = await runTool(record.name, record.args, toolContext);
+                    outcome = { status: ok ? 'done' : 'error', result };
+                }
+                updateToolCall(record.id, outcome);
+                responses.push({ functionResponse: { id: record.callId, name: record.name, response: outcome.result } });
             }
+            return responses;
+        };
+
+        // Chunks only mark the reply dirty; it is written out at most once per frame.
+        let pendingFrame: number | null = null;
+        const flushReplyText = () => {
+            if (pendingFrame !== null) cancelAnimationFrame(pendingFrame);
+            pendingFrame = null;
+            if (!modelMessageId) return;
+            const id: string = modelMessageId;
+            const text = modelResponse;
+            onUpdateConversation(conv => updateMessage(conv, id, { text }));
+        };
+
+        const persona = findPersona(personas, settings.personaId);
+        const summary = findActiveSummary(conversation, priorThread)?.summary;
+        const sessionKey = [conversation.id, JSON.stringify(settings), persona.id, persona.systemInstruction, summary?.id, summary?.text].join('|');
+        const priorLeafId = priorThread[priorThread.length - 1]?.id;
+        const cachedSession = chatSession.current;
+        chatSession.current = null;
+
+        let usage: UsageData | undefined;
+        /** Every round's usage added up, for the usage dashboard. */
+        let spent: MessageUsage | undefined;
+        let modelResponse = '';
+        let finishReason: string | undefined;
+        let safetyRatings: SafetyRating[] | undefined;
+        let blockReason: string | undefined;
+        let failure: ChatError | null = null;
+        let isComplete = false;
 
-            // The `sendMessageStream` method expects an object with a `message`
-            // property containing the parts of the message.
-            const stream = await geminiChat.current.sendMessageStream({ message: messageParts });
-
-            let modelResponse = '';
-            let firstChunk = true;
-
-            for await (const chunk of stream) {
-                const chunkText = chunk.text;
-                if (chunkText) {
-                    modelResponse += chunkText;
-                    if (firstChunk) {
-                        setMessages(prev => [...prev, { role: 'model', text: modelResponse }]);
-                        firstChunk = false;
-                    } else {
-                        setMessages(prev => {
-                            const newMessages = [...prev];
-                            newMessages[newMessages.length - 1].text = modelResponse;
-                            return newMessages;
-                        });
+        /**
+         * Streams one request and returns the tool calls it asked for. Transient failures
+         * are retried with backoff, but only before anything has arrived; after that a
+         * retry would repeat text already shown.
+         */
+        const streamRound = async (chat: ChatSession, parts: ChatPart[]): Promise<FunctionCall[]> => {
+            for (let attempt = 0; ; attempt++) {
+                const calls: FunctionCall[] = [];
+                let received = false;
+                let roundUsage: UsageData | undefined;
+                try {
+                    for await (const chunk of chat.sendMessageStream(parts, { signal: controller.signal })) {
+                        // Stopping keeps whatever has arrived so far.
+                        if (controller.signal.aborted) break;
+                        received = true;
+                        // Counts are running totals for the request, so only the last one matters.
+                        if (chunk.usage) roundUsage = chunk.usage;
+                        if (chunk.functionCalls) calls.push(...chunk.functionCalls);
+                        if (chunk.finishReason) finishReason = chunk.finishReason;
+                        if (chunk.safetyRatings) safetyRatings = chunk.safetyRatings;
+                        if (chunk.blockReason) blockReason = chunk.blockReason;
+                        const chunkText = chunk.text;
+                        if (chunkText) {
+                            modelResponse += chunkText;
+                            if (!modelMessageId) {
+                                appendReply(modelResponse);
+                            } else if (pendingFrame === null) {
+                                pendingFrame = requestAnimationFrame(flushReplyText);
+                            }
+                        }
                     }
+                    if (roundUsage) {
+                        usage = roundUsage;
+                        spent = {
+                            model: settings.model,
+                            promptTokens: (spent?.promptTokens ?? 0) + roundUsage.promptTokens,
+                            responseTokens: (spent?.responseTokens ?? 0) + roundUsage.responseTokens,
+                            thinkingTokens: (spent?.thinkingTokens ?? 0) + roundUsage.thinkingTokens,
+                        };
+                    }
+                    return calls;
+                } catch (error) {
+                    const classified = classifyError(error);
+                    const delay = received || controller.signal.aborted ? null : retryDelayMs(classified, attempt);
+                    if (delay === null) throw error;
+                    console.warn(`Retrying after ${classified.kind} error:`, error);
+                    setRetryNotice(`${classified.message} Retrying (${attempt + 1}/${MAX_AUTO_RETRIES})…`);
+                    await new Promise<void>(resolve => {
+                        const timer = setTimeout(resolve, delay);
+                        controller.signal.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+                    });
+                    setRetryNotice(null);
+                    if (controller.signal.aborted) return calls;
+                }
+            }
+        };
+
+        setReplyError(null);
+        try {
+            const tools = getEnabledTools(settings).map(tool => tool.declaration);
+            const chat = cachedSession && cachedSession.key === sessionKey && cachedSession.leafId === priorLeafId
+                ? cachedSession.session
+                : createChat(await buildContext(conversation, priorThread), settings, persona, tools.length > 0 ? tools : undefined);
+            let parts = await messageToParts(userMessage);
+
+            // Each round sends the prompt or the previous round's tool results and streams
+            // until the model either answers or asks for more tools.
+            for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+                const calls = await streamRound(chat, parts);
+                flushReplyText();
+                if (controller.signal.aborted) break;
+                if (calls.length === 0) {
+                    isComplete = true;
+                    break;
                 }
+                if (round === MAX_TOOL_ROUNDS) break;
+                parts = await runToolCalls(calls, round);
             }
-            if (firstChunk) {
-                 setMessages(prev => [...prev, { role: 'model', text: "I'm sorry, I couldn't generate a response." }]);
+            if (!modelMessageId && !controller.signal.aborted) {
+                failure = emptyReplyError(finishReason, blockReason);
+            }
+            if (isComplete && modelMessageId) {
+                chatSession.current = { key: sessionKey, leafId: modelMessageId, session: chat };
             }
         } catch (error) {
             console.error(error);
-            setMessages(prev => [...prev, { role: 'model', text: 'Sorry, something went wrong. Please try again.' }]);
+            if (!controller.signal.aborted) failure = classifyError(error);
         } finally {
-            setIsLoading(false);
+            flushReplyText();
+            setRetryNotice(null);
+            if (abortController.current === controller) {
+                abortController.current = null;
+                setIsLoading(false);
+            }
+        }
+        if (failure) setReplyError({ error: failure, promptId: userMessage.id });
+        // Logged even for failed or stopped replies: the tokens were still spent.
+        if (spent) logUsage(spent, modelMessageId ?? generateId(), 'reply', conversation.id);
+        if (modelMessageId && (spent || isTruncated(finishReason))) {
+            const id: string = modelMessageId;
+            const ratings = notableRatings(safetyRatings);
+            const patch: Partial<ChatMessage> = isTruncated(finishReason)
+                ? { usage: spent, finishReason, safetyRatings: ratings.length > 0 ? ratings : undefined }
+                : { usage: spent };
+            onUpdateConversation(conv => updateMessage(conv, id, patch));
         }
+        if (isComplete && modelMessageId && isVoiceModeRef.current) readAloud(modelMessageId, modelResponse);
+
+        if (!usage || !modelMessageId) return;
+        const reply: ChatMessage = { id: modelMessageId, parentId: userMessage.id, createdAt: Date.now(), role: 'model', text: modelResponse };
+        const replyThread = [...priorThread, userMessage, reply];
+        const tokens = usage.promptTokens + usage.responseTokens;
+        tokenCounts.current.set(contextKey(modelMessageId, findActiveSummary(conversationRef.current, replyThread)?.summary ?? null), tokens);
+        setContextTokens(tokens);
+        if (tokens >= summarizeAt) await summarize(replyThread);
     };
-    
+
+    /** Folds older turns of `targetThread` into a new summary that later requests send instead. */
+    const summarize = async (targetThread: ChatMessage[]) => {
+        setIsSummarizing(true);
+        try {
+            const base = conversationRef.current;
+            const { summary, usage } = await summarizeThread(base, targetThread, settings);
+            if (usage) logUsage(usage, summary?.id ?? generateId(), 'summary', base.id);
+            if (summary) onUpdateConversation(conv => {
+                // Another summary of this thread landed meanwhile; it already covers this ground.
+                if (findActiveSummary(conv, targetThread)?.summary.id !== findActiveSummary(base, targetThread)?.summary.id) return conv;
+                return { ...conv, summaries: [...(conv.summaries ?? []), summary] };
+            });
+        } catch (error) {
+            console.error("Summarisation failed:", error);
+        } finally {
+            setIsSummarizing(false);
+        }
+    };
+
+    const handleSaveSummary = (id: string, text: string) => {
+        onUpdateConversation(conv => ({
+            ...conv,
+            summaries: conv.summaries?.map(summary => summary.id === id ? { ...summary, text, edited: true } : summary),
+        }));
+    };
+
+    const toolContext: ToolContext = {
+        searchConversations: (query) => onSearch(query, {}),
+    };
+
+    /** Resolves once the user allows or denies the call in its card, or with `false` on stop. */
+    const requestToolApproval = (id: string, signal: AbortSignal) => new Promise<boolean>(resolve => {
+        const settle = (approved: boolean) => {
+            toolApprovals.current.delete(id);
+            resolve(approved);
+        };
+        toolApprovals.current.set(id, settle);
+        signal.addEventListener('abort', () => settle(false), { once: true });
+    });
+
+    const handleApproveToolCall = useCallback((id: string, approved: boolean) => {
+        toolApprovals.current.get(id)?.(approved);
+    }, []);
+
+    const handleStop = () => {
+        abortController.current?.abort();
+        abortController.current = null;
+        setIsLoading(false);
+    };
+
+    const handleInputChange = (value: string) => {
+        setInput(value);
+        setPaletteIndex(0);
+        setIsPaletteDismissed(false);
+        setCommandError(null);
+    };
+
+    /** Puts a template in the input, asking for its variables first if it has any. */
+    const handleUseTemplate = (template: PromptTemplate) => {
+        setIsTemplatesOpen(false);
+        setInput('');
+        if (templateVariables(template.body).length > 0) {
+            setFillingTemplate(template);
+        } else {
+            setInput(template.body);
+            inputRef.current?.focus();
+        }
+    };
+
+    const runCommand = (command: SlashCommand) => {
+        setInput('');
+        if (command.kind === 'template') {
+            handleUseTemplate(command.template);
+            return;
+        }
+        switch (command.name) {
+            case 'new':
+                onNewChat();
+                break;
+            case 'clear':
+                if (window.confirm('Clear this conversation? Its messages will be deleted.')) onClearConversation();
+                break;
+            case 'model': {
+                if (!command.args) {
+                    setIsSettingsOpen(true);
+                    break;
+                }
+                const model = findModel(command.args);
+                if (model) {
+                    onUpdateConversation(conv => ({ ...conv, settings: { ...settings, model } }));
+                } else {
+                    setCommandError(`Unknown model "${command.args}". Try ${AVAILABLE_MODELS.map(m => m.id).join(', ')}.`);
+                }
+                break;
+            }
+            case 'export': {
+                const format = EXPORT_FORMATS[command.args.toLowerCase()];
+                if (format) {
+                    handleExport(format);
+                } else if (command.args) {
+                    setCommandError(`Unknown export format "${command.args}". Use md, json or html.`);
+                } else {
+                    setIsExportMenuOpen(true);
+                }
+                break;
+            }
+            case 'templates':
+                setIsTemplatesOpen(true);
+                break;
+            case 'usage':
+                setIsUsageOpen(true);
+                break;
+        }
+    };
+
+    /** A suggestion that still needs an argument goes into the input; anything else runs. */
+    const handlePickSuggestion = (suggestion: CommandSuggestion) => {
+        const command = suggestion.value.endsWith(' ') ? null : parseSlashCommand(suggestion.value, promptTemplates);
+        if (command) {
+            runCommand(command);
+        } else {
+            handleInputChange(suggestion.value);
+            inputRef.current?.focus();
+        }
+    };
+
+    const handleInputKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (commandSuggestions.length > 0) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                setPaletteIndex(index => (index + step + commandSuggestions.length) % commandSuggestions.length);
+                return;
+            }
+            if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey)) {
+                e.preventDefault();
+                handlePickSuggestion(commandSuggestions[Math.min(paletteIndex, commandSuggestions.length - 1)]);
+                return;
+            }
+            if (e.key === 'Escape') {
+                setIsPaletteDismissed(true);
+                return;
+            }
+        }
+        if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            handleSubmit(e);
+        }
+    };
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        if ((!input.trim() && pendingAttachments.length === 0) || isLoading) return;
+        const command = parseSlashCommand(input, promptTemplates);
+        if (command) {
+            runCommand(command);
+            return;
+        }
+        sendMessage(input);
+    };
+
+    /** Sends `text` with any pending attachments as the next prompt on the current branch. */
+    const sendMessage = async (text: string) => {
+        const priorThread = thread;
+
+        // Anything stored before a failure is left unreferenced and pruned on next sign-in.
+        const attachments: AttachmentRef[] = [];
+        try {
+            for (const pending of pendingAttachments) {
+                const id = await saveAttachment(user.uid, conversation.id, pending.file);
+                attachments.push({ id, name: pending.file.name, mimeType: pending.file.type, size: pending.file.size, kind: pending.kind });
+            }
+        } catch (error) {
+            console.error(error);
+            setAttachmentError(error instanceof Error ? error.message : 'Failed to store the attachments.');
+            return;
+        }
+        setAttachmentError(null);
+
+        const parentId = priorThread.length > 0 ? priorThread[priorThread.length - 1].id : null;
+        const userMessage = createMessage({ role: 'user', text, attachments: attachments.length > 0 ? attachments : undefined, parentId });
+        onUpdateConversation(conv => appendMessage(conv, userMessage));
+
+        setInput('');
+        clearPendingAttachments();
+
+        await streamReply(userMessage, priorThread);
+    };
+
+    /** Asks again for a reply to the prompt whose reply failed, if it is still on the current branch. */
+    const handleRetryReply = () => {
+        const index = thread.findIndex(msg => msg.id === replyError?.promptId);
+        if (index === -1 || isLoading) {
+            setReplyError(null);
+            return;
+        }
+        streamReply(thread[index], thread.slice(0, index));
+    };
+
+    /** Answers the last prompt in the thread again, as a sibling of any existing reply. */
+    const handleRegenerate = useStableCallback(() => {
+        const promptIndex = thread.map(msg => msg.role).lastIndexOf('user');
+        if (promptIndex === -1 || isLoading) return;
+        streamReply(thread[promptIndex], thread.slice(0, promptIndex));
+    });
+
+    /** Forks the conversation at `original` with an edited copy of the prompt. */
+    const handleEdit = useStableCallback((original: ChatMessage, text: string) => {
+        if (isLoading) return;
+        const index = thread.findIndex(msg => msg.id === original.id);
+        const edited = createMessage({ role: 'user', text, attachments: original.attachments, parentId: original.parentId });
+        onUpdateConversation(conv => appendMessage(conv, edited));
+        streamReply(edited, thread.slice(0, index));
+    });
+
+    const handleSelectVersion = useCallback((message: ChatMessage, offset: -1 | 1) => {
+        onUpdateConversation(conv => {
+            const siblings = getSiblings(conv, message);
+            const target = siblings[siblings.findIndex(sib => sib.id === message.id) + offset];
+            return target ? selectBranch(conv, target.id) : conv;
+        });
+    }, [onUpdateConversation]);
+
+    const handleExport = async (format: 'markdown' | 'json' | 'html') => {
+        setIsExportMenuOpen(false);
+        try {
+            if (format === 'markdown') {
+                downloadFile(exportFileName(conversation, 'md'), toMarkdown(conversation), 'text/markdown');
+            } else if (format === 'json') {
+                downloadFile(exportFileName(conversation, 'json'), await toJson(conversation), 'application/json');
+            } else {
+                const html = await toHtml(conversation, text => renderToStaticMarkup(<MessageRenderer content={text} isStatic />));
+                downloadFile(exportFileName(conversation, 'html'), html, 'text/html');
+            }
+        } catch (error) {
+            console.error("Export failed:", error);
+        }
+    };
+
+    const lastMessage = thread[thread.length - 1];
+
     return (
-        <div className="flex flex-col h-screen bg-gray-900 text-white">
-            <header className="flex items-center justify-between p-4 bg-gray-800 shadow-md flex-shrink-0">
-                 <div className="flex items-center gap-2">
-                    <button onClick={onNewChat} className="flex items-center gap-2 p-2 rounded-md hover:bg-gray-700 transition-colors" aria-label="New Chat">
-                        <PlusIcon />
-                        <span className="hidden sm:inline">New Chat</span>
-                    </button>
-                </div>
-                <div className="flex items-center gap-4">
-                    <span className="text-sm text-gray-300 hidden sm:block" aria-label="User Email">{user.email}</span>
-                    <button onClick={onLogout} className="text-gray-400 hover:text-white transition-colors" aria-label="Sign out">
-                        <LogoutIcon />
-                    </button>
-                </div>
-            </header>
-
-            <main className="flex-1 overflow-y-auto p-4 space-y-4">
-                {messages.map((msg, index) => (
-                    <div key={index} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                        <div className={`max-w-xs md:max-w-md lg:max-w-2xl rounded-xl shadow ${msg.role === 'user' ? 'bg-cyan-600' : 'bg-gray-700'}`}>
-                           {msg.imageUrl && <img src={msg.imageUrl} alt="User upload" className="rounded-t-xl max-h-60 w-full object-cover" />}
-                           {msg.text && <MessageRenderer content={msg.text} />}
-                        </div>
+        <div className="flex h-screen bg-gray-900 text-white">
+            <ConversationSidebar
+                conversations={conversations}
+                activeConversationId={activeConversationId}
+                isOpen={isSidebarOpen}
+                onSelect={(id) => { onSelectConversation(id); setIsSidebarOpen(false); }}
+                onRename={onRenameConversation}
+                onTogglePin={onTogglePinConversation}
+                onDelete={onDeleteConversation}
+                onImport={onImportConversation}
+            />
+            <div className="relative flex flex-col flex-1 min-w-0" onDragOver={handleDragOver} onDragLeave={handleDragLeave} onDrop={handleDrop}>
+                {isDragging && (
+                    <div className="absolute inset-0 z-10 flex items-center justify-center bg-gray-900/80 border-2 border-dashed border-cyan-500 rounded-lg pointer-events-none">
+                        <p className="text-xl text-cyan-400">Drop files to attach</p>
                     </div>
-                ))}
-                {isLoading && <TypingIndicator />}
-                <div ref={messagesEndRef} />
-            </main>
-
-            <footer className="p-4 bg-gray-800/80 backdrop-blur-sm border-t border-gray-700/50 flex-shrink-0">
-                {imagePreview && (
-                    <div className="relative inline-block mb-2">
-                        <img src={imagePreview} alt="Selected preview" className="h-20 w-20 object-cover rounded-md"/>
-                        <button onClick={handleRemoveImage} className="absolute -top-2 -right-2 bg-gray-700 text-white rounded-full hover:bg-gray-600 transition-colors" aria-label="Remove image">
-                           <XCircleIcon />
+                )}
+                <header className="flex items-center justify-between p-4 bg-gray-800 shadow-md flex-shrink-0">
+                     <div className="flex items-center gap-2">
+                        <button onClick={() => setIsSidebarOpen(open => !open)} className="md:hidden p-2 rounded-md hover:bg-gray-700 transition-colors" aria-label="Toggle conversations">
+                            <MenuIcon />
+                        </button>
+                        <button onClick={onNewChat} className="flex items-center gap-2 p-2 rounded-md hover:bg-gray-700 transition-colors" aria-label="New Chat">
+                            <PlusIcon />
+                            <span className="hidden sm:inline">New Chat</span>
                         </button>
                     </div>
-                )}
-                <form onSubmit={handleSubmit} className="flex items-center gap-2">
-                     <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isLoading} className="p-2 text-gray-400 rounded-full hover:bg-gray-700 hover:text-white transition-colors flex-shrink-0 disabled:opacity-50" aria-label="Attach file">
-                        <PaperclipIcon />
-                    </button>
-                    <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept="image/*" />
-<textarea
-    value={input}
-    onChange={(e) => setInput(e.target.value)}
-    onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSubmit(e as any); }}}
-    placeholder="Type your message or add an image..."
-    rows={1}
-    className="flex-1 p-2 bg-gray-700 border border-gray-600 rounded-md resize-none focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50 text-lg font-serif"
-    style={{maxHeight: '100px'}}
-    aria-label="Chat input"
-    disabled={isLoading}
-/>                    {speechRecognition.current && (
-                         <button type="button" onClick={handleToggleListening} disabled={isLoading} className={`p-2 rounded-full hover:bg-gray-700 transition-colors flex-shrink-0 disabled:opacity-50 ${isListening ? 'bg-red-500/20' : ''}`} aria-label={isListening ? 'Stop listening' : 'Start listening'}>
-                            <MicrophoneIcon isListening={isListening} />
+                    <div className="flex items-center gap-4">
+                        {user.isAnonymous && (
+                            <button onClick={onUpgradeAccount} className="text-sm px-3 py-1 rounded-md bg-cyan-600 hover:bg-cyan-700">Sign up</button>
+                        )}
+                        <button onClick={() => setIsProfileOpen(true)} className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors" aria-label="Profile">
+                            <span className="text-sm text-gray-300 hidden sm:block" aria-label="User Email">{user.isAnonymous ? 'Guest' : user.email}</span>
+                            <UserCircleIcon />
+                        </button>
+                        {contextTokens !== null && (
+                            <button
+                                onClick={() => summarize(thread)}
+                                disabled={isLoading || isSummarizing}
+                                className={`text-xs px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:cursor-default ${contextTokens >= summarizeAt * 0.8 ? 'text-amber-300' : 'text-gray-300'}`}
+                                title="Tokens in the context sent with the next message. Click to summarise older turns now."
+                                aria-label="Context size"
+                            >
+                                {isSummarizing ? 'Summarising…' : `${formatTokenCount(contextTokens)} / ${formatTokenCount(summarizeAt)} tokens`}
+                            </button>
+                        )}
+                        <button onClick={() => setIsUsageOpen(true)} className={`transition-colors ${isOverBudget ? 'text-red-400 hover:text-red-300' : 'text-gray-400 hover:text-white'}`} aria-label="Usage and cost" title={isOverBudget ? 'Over your monthly budget' : 'Usage and cost'}>
+                            <ChartBarIcon />
+                        </button>
+                        <button onClick={() => setIsTemplatesOpen(true)} className="text-gray-400 hover:text-white transition-colors" aria-label="Prompt templates" title="Prompt templates (type / in the chat box)">
+                            <BookOpenIcon />
+                        </button>
+                        <button onClick={() => setIsSearchOpen(true)} className="text-gray-400 hover:text-white transition-colors" aria-label="Search conversations" title="Search (Ctrl+K)">
+                            <MagnifyingGlassIcon />
                         </button>
+                        <div className="relative">
+                            <button onClick={() => setIsExportMenuOpen(open => !open)} className="text-gray-400 hover:text-white transition-colors" aria-label="Export conversation" aria-expanded={isExportMenuOpen}>
+                                <ArrowDownTrayIcon />
+                            </button>
+                            {isExportMenuOpen && (
+                                <div className="absolute right-0 z-20 mt-2 w-44 py-1 bg-gray-700 rounded-md shadow-lg text-sm" role="menu">
+                                    <button onClick={() => handleExport('markdown')} className="block w-full px-3 py-2 text-left hover:bg-gray-600" role="menuitem">Markdown (.md)</button>
+                                    <button onClick={() => handleExport('json')} className="block w-full px-3 py-2 text-left hover:bg-gray-600" role="menuitem">JSON (.json)</button>
+                                    <button onClick={() => handleExport('html')} className="block w-full px-3 py-2 text-left hover:bg-gray-600" role="menuitem">Web page (.html)</button>
+                                </div>
+                            )}
+                        </div>
+                        <button onClick={() => setIsSettingsOpen(true)} className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors" aria-label="Chat settings">
+                            <span className="text-xs hidden lg:inline">{AVAILABLE_MODELS.find(model => model.id === settings.model)?.label ?? settings.model} · {findPersona(personas, settings.personaId).name}</span>
+                            <CogIcon />
+                        </button>
+                        <button onClick={onLogout} className="text-gray-400 hover:text-white transition-colors" aria-label="Sign out">
+                            <LogoutIcon />
+                        </button>
+                    </div>
+                </header>
+                {isOverBudget && !isBudgetWarningDismissed && (
+                    <div className="flex items-center gap-3 px-4 py-2 text-sm bg-amber-900/60 text-amber-100 flex-shrink-0" role="alert">
+                        <p className="flex-1">You've spent an estimated {formatCost(monthCost)} this month, over your {formatCost(usageSettings.monthlyBudget!)} budget.</p>
+                        <button onClick={() => setIsUsageOpen(true)} className="px-3 py-1 rounded-md bg-gray-900/50 hover:bg-gray-900">View usage</button>
+                        <button onClick={() => setIsBudgetWarningDismissed(true)} className="text-amber-200 hover:text-white" aria-label="Dismiss budget warning"><XCircleIcon /></button>
+                    </div>
+                )}
+
+                <main ref={mainRef} className="flex-1 overflow-y-auto p-4 space-y-4">
+                    <div style={{ paddingTop: virtualList.paddingTop, paddingBottom: virtualList.paddingBottom }}>
+                        {thread.slice(virtualList.start, virtualList.end).map((msg, offset) => {
+                            const siblings = siblingGroups.get(msg.parentId) ?? [msg];
+                            return (
+                                <VirtualItem key={msg.id} id={msg.id} observer={virtualList.observer} className={virtualList.start + offset > 0 ? 'pt-4' : undefined}>
+                                    <MessageBubble
+                                        message={msg}
+                                        versionIndex={siblings.indexOf(msg)}
+                                        versionCount={siblings.length}
+                                        isBusy={isLoading}
+                                        canRegenerate={msg === lastMessage && msg.role === 'model' && msg.parentId !== null}
+                                        onSelectVersion={handleSelectVersion}
+                                        onRegenerate={handleRegenerate}
+                                        onEdit={handleEdit}
+                                        onApproveToolCall={handleApproveToolCall}
+                                        onReadAloud={handleReadAloud}
+                                        isSpeaking={msg.id === speakingMessageId}
+                                        isHighlighted={msg.id === highlightedMessageId}
+                                    />
+                                    {activeSummary?.throughMessageId === msg.id && (
+                                        <SummaryDivider summary={activeSummary} isBusy={isLoading || isSummarizing} onSave={(text) => handleSaveSummary(activeSummary.id, text)} />
+                                    )}
+                                </VirtualItem>
+                            );
+                        })}
+                    </div>
+                    {replyError && !isLoading && (
+                        <ReplyErrorBanner error={replyError.error} onRetry={handleRetryReply} onDismiss={() => setReplyError(null)} />
                     )}
-                    <button type="submit" disabled={isLoading || (!input.trim() && !image)} className="p-2 bg-cyan-600 rounded-full text-white disabled:bg-gray-600 disabled:cursor-not-allowed hover:bg-cyan-700 transition-colors flex-shrink-0" aria-label="Send message">
-                        <SendIcon />
-                    </button>
-                </form>
-            </footer>
+                    {!isLoading && !replyError && lastMessage?.role === 'user' && (
+                        <div className="flex justify-start">
+                            <button onClick={handleRegenerate} className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-300 rounded-md bg-gray-800 hover:bg-gray-700" aria-label="Generate response">
+                                <ArrowPathIcon />
+                                <span>Generate response</span>
+                            </button>
+                        </div>
+                    )}
+                    {isLoading && <TypingIndicator />}
+                    {isLoading && retryNotice && <p className="text-sm text-amber-300" role="status">{retryNotice}</p>}
+                    <div ref={messagesEndRef} />
+                </main>
+
+                <footer className="relative p-4 bg-gray-800/80 backdrop-blur-sm border-t border-gray-700/50 flex-shrink-0">
+                    {attachmentError && <p className="text-sm text-red-400 bg-red-900/50 p-2 rounded-md mb-2" role="alert">{attachmentError}</p>}
+                    {pendingAttachments.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-2 mb-2">
+                            {pendingAttachments.map(att => att.previewUrl ? (
+                                <div key={att.id} className="relative inline-block">
+                                    <img src={att.previewUrl} alt={att.file.name} title={`${att.file.name} · ${formatBytes(att.file.size)}`} className="h-20 w-20 object-cover rounded-md"/>
+                                    <button onClick={() => handleRemoveAttachment(att.id)} className="absolute -top-2 -right-2 bg-gray-700 text-white rounded-full hover:bg-gray-600 transition-colors" aria-label={`Remove ${att.file.name}`}>
+                                       <XCircleIcon />
+                                    </button>
+                                </div>
+                            ) : (
+                                <AttachmentChip key={att.id} name={att.file.name} kind={att.kind} size={att.file.size} onRemove={() => handleRemoveAttachment(att.id)} />
+                            ))}
+                        </div>
+                    )}
+                    {commandSuggestions.length > 0 && (
+                        <CommandPalette suggestions={commandSuggestions} activeIndex={paletteIndex} onHover={setPaletteIndex} onPick={handlePickSuggestion} />
+                    )}
+                    {commandError && <p className="text-sm text-red-400 bg-red-900/50 p-2 rounded-md mb-2" role="alert">{commandError}</p>}
+                    {fillingTemplate && (
+                        <TemplateFillForm
+                            key={fillingTemplate.id}
+                            template={fillingTemplate}
+                            onInsert={(text) => { setFillingTemplate(null); handleInputChange(text); inputRef.current?.focus(); }}
+                            onCancel={() => setFillingTemplate(null)}
+                        />
+                    )}
+                    {voiceError && <p className="text-sm text-red-400 bg-red-900/50 p-2 rounded-md mb-2" role="alert">{voiceError}</p>}
+                    {isVoiceMode && (
+                        <p className="text-sm text-gray-300 mb-2" aria-live="polite">
+                            <span className="text-cyan-400">{speakingMessageId ? 'Speaking…' : isLoading ? 'Thinking…' : 'Listening…'}</span>
+                            {voiceTranscript && <span className="italic"> {voiceTranscript}</span>}
+                        </p>
+                    )}
+                    <form onSubmit={handleSubmit} className="flex items-center gap-2">
+                         <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isLoading} className="p-2 text-gray-400 rounded-full hover:bg-gray-700 hover:text-white transition-colors flex-shrink-0 disabled:opacity-50" aria-label="Attach file">
+                            <PaperclipIcon />
+                        </button>
+                        <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept={ACCEPTED_FILE_TYPES} multiple />
+    <textarea
+        ref={inputRef}
+        value={input}
+        onChange={(e) => handleInputChange(e.target.value)}
+        onKeyDown={handleInputKeyDown}
+        onPaste={handlePaste}
+        placeholder="Type your message or / for commands, or paste or drop files..."
+        aria-expanded={commandSuggestions.length > 0}
+        rows={1}
+        className="flex-1 p-2 bg-gray-700 border border-gray-600 rounded-md resize-none focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50 text-lg font-serif"
+        style={{maxHeight: '100px'}}
+        aria-label="Chat input"
+        disabled={isLoading}
+    />                    {isRecognitionSupported && (
+                            <button type="button" onClick={() => setIsVoiceMode(on => !on)} className={`p-2 rounded-full hover:bg-gray-700 transition-colors flex-shrink-0 ${isVoiceMode ? 'bg-cyan-500/20' : ''}`} aria-label={isVoiceMode ? 'End voice conversation' : 'Start voice conversation'} aria-pressed={isVoiceMode} title="Hands-free voice conversation">
+                                <VoiceModeIcon isActive={isVoiceMode} />
+                            </button>
+                        )}
+                        {speechRecognition.current && !isVoiceMode && (
+                             <button type="button" onClick={handleToggleListening} disabled={isLoading} className={`p-2 rounded-full hover:bg-gray-700 transition-colors flex-shrink-0 disabled:opacity-50 ${isListening ? 'bg-red-500/20' : ''}`} aria-label={isListening ? 'Stop listening' : 'Start listening'}>
+                                <MicrophoneIcon isListening={isListening} />
+                            </button>
+                        )}
+                        {isLoading ? (
+                            <button type="button" onClick={handleStop} className="p-2 bg-red-600 rounded-full text-white hover:bg-red-700 transition-colors flex-shrink-0" aria-label="Stop generating">
+                                <StopIcon />
+                            </button>
+                        ) : (
+                            <button type="submit" disabled={!input.trim() && pendingAttachments.length === 0} className="p-2 bg-cyan-600 rounded-full text-white disabled:bg-gray-600 disabled:cursor-not-allowed hover:bg-cyan-700 transition-colors flex-shrink-0" aria-label="Send message">
+                                <SendIcon />
+                            </button>
+                        )}
+                    </form>
+                </footer>
+            </div>
+            {isSearchOpen && (
+                <SearchPalette
+                    onSearch={onSearch}
+                    onSelect={(result) => { setIsSearchOpen(false); onOpenSearchResult(result); }}
+                    onClose={() => setIsSearchOpen(false)}
+                />
+            )}
+            {isUsageOpen && (
+                <UsageDashboard
+                    usageLog={usageLog}
+                    conversations={conversations}
+                    settings={usageSettings}
+                    onChangeSettings={handleChangeUsageSettings}
+                    onSelectConversation={onSelectConversation}
+                    onClose={() => setIsUsageOpen(false)}
+                />
+            )}
+            {isTemplatesOpen && (
+                <PromptLibraryPanel templates={promptTemplates} onChange={onChangePromptTemplates} onUse={handleUseTemplate} onClose={() => setIsTemplatesOpen(false)} />
+            )}
+            {isProfileOpen && (
+                <ProfilePanel user={user} onUpgrade={() => { setIsProfileOpen(false); onUpgradeAccount(); }} onClose={() => setIsProfileOpen(false)} />
+            )}
+            {isSettingsOpen && (
+                <SettingsPanel
+                    settings={settings}
+                    personas={personas}
+                    onChangeSettings={(next) => onUpdateConversation(conv => ({ ...conv, settings: next }))}
+                    onChangePersonas={onChangePersonas}
+                    voiceSettings={voiceSettings}
+                    onChangeVoiceSettings={handleChangeVoiceSettings}
+                    onClose={() => setIsSettingsOpen(false)}
+                />
+            )}
         </div>
     );
 };
 
 // --- App Component (Root) ---
+const SAVE_DEBOUNCE_MS = 500;
+
 const App: React.FC = () => {
     const [user, setUser] = useState<firebase.User | null>(null);
     const [authLoading, setAuthLoading] = useState(true);
-    const [messages, setMessages] = useState<ChatMessage[]>([]);
+    const [conversations, setConversations] = useState<Conversation[]>([]);
+    const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+    const [personas, setPersonas] = useState<Persona[]>([]);
+    const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
+    const [focusRequest, setFocusRequest] = useState<{ messageId: string } | null>(null);
+    const [isUpgrading, setIsUpgrading] = useState(false);
+    // Linking a guest or verifying an email changes the same user object in place.
+    const [, setAuthRevision] = useState(0);
+    const searchIndex = useRef(createSearchIndex());
+    const conversationSync = useRef<ConversationSync | null>(null);
+    /** Conversations waiting for the debounced localStorage write. */
+    const pendingSave = useRef<{ uid: string; conversations: Conversation[] } | null>(null);
+
+    const initialWelcomeMessage = (): ChatMessage => createMessage({ role: 'model', parentId: null, text: `Hello there! I'm your Gemini-powered assistant. You can ask me questions, attach images, PDFs, audio or code files, or even use your voice. How can I help you today?` });
 
-    const initialWelcomeMessage: ChatMessage = { role: 'model', text: `Hello there! I'm your Gemini-powered assistant. You can ask me questions, upload an image, or even use your voice. How can I help you today?` };
+    // Local history shows straight away; the sync merges in other devices' changes and
+    // uploads anything only this device has. Guests stay local.
+    const startSync = (uid: string) => {
+        conversationSync.current = createConversationSync(uid, {
+            onRemoteChange: (remote) => setConversations(prev => {
+                const local = prev.find(conv => conv.id === remote.id);
+                if (!local) return [remote, ...prev];
+                return local.updatedAt >= remote.updatedAt ? prev : prev.map(conv => conv.id === remote.id ? remote : conv);
+            }),
+            onRemoteDelete: (id, deletedAt) => setConversations(prev =>
+                prev.filter(conv => conv.id !== id || conv.updatedAt > deletedAt)),
+        });
+    };
 
     // Handle Auth State Changes
     useEffect(() => {
-        const unsubscribe = auth.onAuthStateChanged((firebaseUser) => {
+        const unsubscribe = auth.onAuthStateChanged(async (firebaseUser) => {
+            searchIndex.current.clear();
+            // Dropped rather than flushed: after an account deletion it would write the history back.
+            pendingSave.current = null;
+            conversationSync.current?.stop();
+            conversationSync.current = null;
+            setIsUpgrading(false);
+            // A guest who just logged in to an existing account brings their chats along.
+            if (firebaseUser && !firebaseUser.isAnonymous) await claimGuestData(firebaseUser.uid);
             setUser(firebaseUser);
             setAuthLoading(false);
             if (firebaseUser) {
-                const history = loadChatHistory(firebaseUser.uid);
-                setMessages(history.length > 0 ? history : [initialWelcomeMessage]);
+                setPersonas(loadPersonas(firebaseUser.uid));
+                setPromptTemplates(loadPromptTemplates(firebaseUser.uid));
+                const stored = loadConversations(firebaseUser.uid);
+                if (stored.length > 0) {
+                    const referencedIds = new Set(stored.flatMap(conv => conv.messages.flatMap(msg => msg.attachments?.map(att => att.id) ?? [])));
+                    pruneOrphanedAttachments(firebaseUser.uid, referencedIds);
+                    setConversations(stored);
+                    setActiveConversationId(sortConversations(stored)[0].id);
+                } else {
+                    const fresh = createConversation([initialWelcomeMessage()]);
+                    setConversations([fresh]);
+                    setActiveConversationId(fresh.id);
+                }
+                if (!firebaseUser.isAnonymous) startSync(firebaseUser.uid);
             } else {
-                setMessages([]);
+                setConversations([]);
+                setActiveConversationId(null);
             }
         });
-        return () => unsubscribe();
+        return () => {
+            unsubscribe();
+            conversationSync.current?.stop();
+        };
+    }, []);
+
+    const flushPendingSave = useCallback(() => {
+        if (!pendingSave.current) return;
+        saveConversations(pendingSave.current.uid, pendingSave.current.conversations);
+        pendingSave.current = null;
     }, []);
 
-    // Persist messages to localStorage on change
+    // Persist conversations to localStorage on change. Streaming changes them every frame,
+    // so writes are debounced, and flushed if the page goes away first.
+    useEffect(() => {
+        if (!user) return;
+        pendingSave.current = { uid: user.uid, conversations };
+        conversationSync.current?.push(conversations);
+        const timer = setTimeout(flushPendingSave, SAVE_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [conversations, user, flushPendingSave]);
+
+    useEffect(() => {
+        window.addEventListener('pagehide', flushPendingSave);
+        return () => window.removeEventListener('pagehide', flushPendingSave);
+    }, [flushPendingSave]);
+
+    // Another device may delete the conversation on screen.
     useEffect(() => {
-        if (user) {
-            saveChatHistory(user.uid, messages);
+        if (!user || conversations.some(conv => conv.id === activeConversationId)) return;
+        if (conversations.length > 0) {
+            setActiveConversationId(sortConversations(conversations)[0].id);
+        } else {
+            const fresh = createConversation([initialWelcomeMessage()]);
+            setConversations([fresh]);
+            setActiveConversationId(fresh.id);
         }
-    }, [messages, user]);
+    }, [conversations, activeConversationId, user]);
+
+    const handleChangePersonas = (next: Persona[]) => {
+        setPersonas(next);
+        if (user) savePersonas(user.uid, next);
+    };
+
+    const handleChangePromptTemplates = (next: PromptTemplate[]) => {
+        setPromptTemplates(next);
+        if (user) savePromptTemplates(user.uid, next);
+    };
+
+    const activeConversation = conversations.find(conv => conv.id === activeConversationId);
+
+    // Bound to the conversation that was active when the callback was created, so a
+    // response that is still streaming lands in its own conversation after a switch.
+    const updateActiveConversation = useCallback((updater: (conversation: Conversation) => Conversation) => {
+        if (!activeConversationId) return;
+        setConversations(prev => prev.map(conv => {
+            if (conv.id !== activeConversationId) return conv;
+            const next = updater(conv);
+            return {
+                ...next,
+                title: next.renamed ? next.title : generateTitle(next.messages),
+                updatedAt: Date.now(),
+            };
+        }));
+    }, [activeConversationId]);
+
+    const handleUserChanged = () => {
+        setIsUpgrading(false);
+        setAuthRevision(revision => revision + 1);
+        if (user && !user.isAnonymous && !conversationSync.current) startSync(user.uid);
+    };
 
     const handleLogout = async () => {
+        flushPendingSave();
         try {
             await auth.signOut();
             // onAuthStateChanged will handle state cleanup
@@ -408,7 +2742,70 @@ const App: React.FC = () => {
     };
     
     const handleNewChat = () => {
-        setMessages([initialWelcomeMessage]);
+        const active = conversations.find(conv => conv.id === activeConversationId);
+        if (active && !active.messages.some(msg => msg.role === 'user')) return;
+        // New chats carry over the model and persona the user was last working with.
+        const fresh: Conversation = { ...createConversation([initialWelcomeMessage()]), settings: active?.settings };
+        setConversations(prev => [fresh, ...prev]);
+        setActiveConversationId(fresh.id);
+    };
+
+    const handleRenameConversation = (id: string, title: string) => {
+        // Bumping updatedAt, like any other edit, is what lets the change sync.
+        setConversations(prev => prev.map(conv => conv.id === id ? { ...conv, title, renamed: true, updatedAt: Date.now() } : conv));
+    };
+
+    const handleTogglePinConversation = (id: string) => {
+        setConversations(prev => prev.map(conv => conv.id === id ? { ...conv, pinned: !conv.pinned, updatedAt: Date.now() } : conv));
+    };
+
+    /**
+     * Swaps the active conversation for an empty one with the same settings. It is
+     * deleted rather than emptied so other devices don't bring the old messages back.
+     */
+    const handleClearConversation = () => {
+        const active = conversations.find(conv => conv.id === activeConversationId);
+        if (!active) return;
+        if (user) deleteConversationAttachments(user.uid, active.id);
+        conversationSync.current?.remove(active.id);
+        const fresh: Conversation = { ...createConversation([initialWelcomeMessage()]), settings: active.settings };
+        setConversations(prev => prev.map(conv => conv.id === active.id ? fresh : conv));
+        setActiveConversationId(fresh.id);
+    };
+
+    const handleDeleteConversation = (id: string) => {
+        if (user) deleteConversationAttachments(user.uid, id);
+        conversationSync.current?.remove(id);
+        const remaining = conversations.filter(conv => conv.id !== id);
+        if (remaining.length === 0) {
+            const fresh = createConversation([initialWelcomeMessage()]);
+            setConversations([fresh]);
+            setActiveConversationId(fresh.id);
+            return;
+        }
+        setConversations(remaining);
+        if (id === activeConversationId) {
+            setActiveConversationId(sortConversations(remaining)[0].id);
+        }
+    };
+
+    const handleSearch = useCallback((query: string, filters: SearchFilters) => {
+        searchIndex.current.sync(conversations);
+        return searchIndex.current.search(query, filters);
+    }, [conversations]);
+
+    const handleOpenSearchResult = (result: SearchResult) => {
+        // Switch to whichever branch contains the message so it is actually on screen.
+        setConversations(prev => prev.map(conv => conv.id === result.conversationId ? selectBranch(conv, result.messageId) : conv));
+        setActiveConversationId(result.conversationId);
+        setFocusRequest({ messageId: result.messageId });
+    };
+
+    const handleImportConversation = async (file: File) => {
+        if (!user) return;
+        const imported = await importConversation(user.uid, parseConversationJson(await file.text()));
+        setConversations(prev => [imported, ...prev]);
+        setActiveConversationId(imported.id);
     };
 
     if (authLoading) {
@@ -423,13 +2820,45 @@ const App: React.FC = () => {
         return <AuthComponent />;
     }
 
+    if (isUpgrading && user.isAnonymous) {
+        return <AuthComponent isGuest onCancel={() => setIsUpgrading(false)} onAccountLinked={handleUserChanged} />;
+    }
+
+    if (needsEmailVerification(user)) {
+        return <VerifyEmailScreen user={user} onVerified={handleUserChanged} onLogout={handleLogout} />;
+    }
+
+    if (!activeConversation) {
+        return (
+            <div className="min-h-screen flex items-center justify-center bg-gray-900">
+                <Spinner />
+            </div>
+        );
+    }
+
     return (
         <ChatComponent
             user={user}
             onLogout={handleLogout}
-            messages={messages}
-            setMessages={setMessages}
+            conversation={activeConversation}
+            onUpdateConversation={updateActiveConversation}
             onNewChat={handleNewChat}
+            personas={personas}
+            onChangePersonas={handleChangePersonas}
+            promptTemplates={promptTemplates}
+            onChangePromptTemplates={handleChangePromptTemplates}
+            onClearConversation={handleClearConversation}
+            conversations={conversations}
+            activeConversationId={activeConversationId}
+            onSelectConversation={setActiveConversationId}
+            onRenameConversation={handleRenameConversation}
+            onTogglePinConversation={handleTogglePinConversation}
+            onDeleteConversation={handleDeleteConversation}
+            onImportConversation={handleImportConversation}
+            onSearch={handleSearch}
+            onOpenSearchResult={handleOpenSearchResult}
+            focusRequest={focusRequest}
+            onUpgradeAccount={() => setIsUpgrading(true)}
         />
     );
 };
@@ -0,0 +1,45 @@
+import type { IncomingMessage } from "node:http";
+import { initializeApp, getApps } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+
+// When FIREBASE_AUTH_EMULATOR_HOST is set, firebase-admin verifies tokens minted by
+// the Auth emulator instead of real ones, so no service account is needed locally.
+if (getApps().length === 0) {
+  initializeApp({ projectId: process.env.FIREBASE_PROJECT_ID ?? process.env.VITE_FIREBASE_PROJECT_ID });
+}
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+export interface Caller {
+  uid: string;
+  /** Signed in anonymously; such uids cost nothing to mint, so they get guest limits. */
+  isGuest: boolean;
+}
+
+/**
+ * Verifies the `Authorization: Bearer <Firebase ID token>` header and returns the caller.
+ * Email/password accounts must have verified their address; guests and Google users pass.
+ * @throws {AuthError} when the header is missing, the token is invalid/expired or the email is unverified.
+ */
+export async function verifyRequest(req: IncomingMessage): Promise<Caller> {
+  const header = req.headers.authorization ?? "";
+  const match = /^Bearer (.+)$/.exec(header);
+  if (!match) {
+    throw new AuthError("Missing bearer token");
+  }
+  let decoded;
+  try {
+    decoded = await getAuth().verifyIdToken(match[1]);
+  } catch (e) {
+    throw new AuthError(e instanceof Error ? e.message : "Invalid ID token");
+  }
+  if (decoded.firebase.sign_in_provider === "password" && !decoded.email_verified) {
+    throw new AuthError("Verify your email address before chatting");
+  }
+  return { uid: decoded.uid, isGuest: decoded.firebase.sign_in_provider === "anonymous" };
+}
@@ -0,0 +1,215 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { ApiError } from "@google/genai";
+import type { GoogleGenAI, GenerateContentConfig, GenerateContentResponse, SafetyRating as GeminiSafetyRating } from "@google/genai";
+import type { ChatPart, ChatProxyLine, ChatProxyRequest, ChatStreamChunk, CountTokensRequest } from "../services/chatProvider";
+import { AVAILABLE_MODELS } from "../services/chatProvider";
+import type { SafetyRating } from "../types";
+import { verifyRequest } from "./auth";
+import type { QuotaTracker } from "./quota";
+
+// Attachments arrive base64-encoded, about a third larger than the 20 MB of files the client allows.
+const MAX_BODY_BYTES = 32 * 1024 * 1024;
+
+// Used to reserve quota before the real count is known. Replies without a
+// `maxOutputTokens` cap are assumed to be long; an attachment is sized like a page or image.
+const DEFAULT_OUTPUT_TOKEN_ESTIMATE = 8192;
+const ATTACHMENT_TOKEN_ESTIMATE = 1000;
+
+export class BadRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BadRequestError";
+  }
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new BadRequestError("Request body too large");
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new BadRequestError("Request body is not valid JSON");
+  }
+}
+
+function assertSupportedModel(model: string): void {
+  if (!AVAILABLE_MODELS.some(available => available.id === model)) {
+    throw new BadRequestError(`Unsupported model: ${model}`);
+  }
+}
+
+function parseChatRequest(body: unknown): ChatProxyRequest {
+  const request = body as Partial<ChatProxyRequest>;
+  if (!request || !Array.isArray(request.history) || !Array.isArray(request.message) || !request.settings) {
+    throw new BadRequestError("Expected history, message and settings");
+  }
+  assertSupportedModel(request.settings.model);
+  if (request.tools !== undefined && !Array.isArray(request.tools)) {
+    throw new BadRequestError("Expected tools to be an array");
+  }
+  return request as ChatProxyRequest;
+}
+
+function parseCountTokensRequest(body: unknown): CountTokensRequest {
+  const request = body as Partial<CountTokensRequest>;
+  if (!request || !Array.isArray(request.contents) || typeof request.model !== "string") {
+    throw new BadRequestError("Expected contents and model");
+  }
+  assertSupportedModel(request.model);
+  return request as CountTokensRequest;
+}
+
+/** Visible reply text, skipping thoughts and function calls (`response.text` warns about the latter). */
+const replyText = (response: GenerateContentResponse): string | undefined => {
+  const parts = response.candidates?.[0]?.content?.parts ?? [];
+  const text = parts.filter(part => part.text !== undefined && !part.thought).map(part => part.text).join("");
+  return text || undefined;
+};
+
+const toSafetyRatings = (ratings: GeminiSafetyRating[] | undefined): SafetyRating[] | undefined =>
+  ratings?.map(rating => ({ category: rating.category ?? "HARM_CATEGORY_UNSPECIFIED", probability: rating.probability ?? "HARM_PROBABILITY_UNSPECIFIED", blocked: rating.blocked }));
+
+/**
+ * The status to pass on for a failed Gemini call. A rejected API key is the server's
+ * problem, not the caller's, so it becomes 403 rather than 400 or 401 (which the
+ * browser reads as its own sign-in being refused). Anything else unexpected is a 502.
+ */
+export function upstreamStatus(e: unknown): number {
+  if (!(e instanceof ApiError)) return 502;
+  if (e.status === 401 || e.status === 403 || (e.status === 400 && /api key/i.test(e.message))) return 403;
+  if (e.status === 400 || e.status === 429 || e.status === 503) return e.status;
+  return 502;
+}
+
+const estimateTextTokens = (text: string) => Math.ceil(text.length / 4);
+
+const estimatePartTokens = (part: ChatPart): number => {
+  if ("text" in part) return estimateTextTokens(part.text);
+  if ("inlineData" in part) return ATTACHMENT_TOKEN_ESTIMATE;
+  return estimateTextTokens(JSON.stringify(part));
+};
+
+/** A rough upper bound on what a chat request will cost, for `QuotaTracker.reserveTokens`. */
+function estimateRequestTokens({ history, message, settings }: ChatProxyRequest): number {
+  const promptTokens = [...history.flatMap(content => content.parts), ...message].reduce((total, part) => total + estimatePartTokens(part), 0);
+  return promptTokens + (settings.maxOutputTokens ?? DEFAULT_OUTPUT_TOKEN_ESTIMATE) + Math.max(0, settings.thinkingBudget ?? 0);
+}
+
+/**
+ * Accounts are limited per uid. Anyone can mint a fresh guest uid, so guests share the
+ * tighter guest limits per IP address instead of getting a new allowance each time.
+ */
+export interface ProxyQuotas {
+  accounts: QuotaTracker;
+  guests: QuotaTracker;
+}
+
+/** Verifies the caller and picks the tracker and key their requests are charged to. */
+async function chargeCaller(req: IncomingMessage, quotas: ProxyQuotas): Promise<{ tracker: QuotaTracker; key: string }> {
+  const { uid, isGuest } = await verifyRequest(req);
+  if (!isGuest) return { tracker: quotas.accounts, key: uid };
+  return { tracker: quotas.guests, key: `guest:${req.socket.remoteAddress ?? "unknown"}` };
+}
+
+const writeLine = (res: ServerResponse, line: ChatProxyLine) => res.write(`${JSON.stringify(line)}\n`);
+
+/** `POST /api/chat`: verifies the caller, applies quotas and streams Gemini's reply as NDJSON. */
+export function createChatHandler(ai: GoogleGenAI, quotas: ProxyQuotas) {
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const { tracker, key } = await chargeCaller(req, quotas);
+    tracker.checkRequest(key);
+    const request = parseChatRequest(await readJson(req));
+    const { history, message, settings, systemInstruction, tools } = request;
+
+    // Stop generating (and spending tokens) as soon as the browser goes away.
+    const controller = new AbortController();
+    res.on("close", () => controller.abort());
+
+    const config: GenerateContentConfig = {
+      systemInstruction,
+      temperature: settings.temperature,
+      topP: settings.topP,
+      maxOutputTokens: settings.maxOutputTokens,
+      abortSignal: controller.signal,
+    };
+    if (settings.thinkingBudget !== undefined) {
+      config.thinkingConfig = { thinkingBudget: settings.thinkingBudget };
+    }
+    if (tools && tools.length > 0) {
+      // The browser runs the tools and sends their results back as the next message.
+      config.tools = [{
+        functionDeclarations: tools.map(tool => ({ name: tool.name, description: tool.description, parametersJsonSchema: tool.parameters })),
+      }];
+    }
+
+    // Held until the reply ends, so requests running side by side can't overshoot the daily quota.
+    const settleTokens = tracker.reserveTokens(key, estimateRequestTokens(request));
+    let totalTokens = 0;
+    let stream: AsyncGenerator<GenerateContentResponse>;
+    try {
+      stream = await ai.models.generateContentStream({
+        model: settings.model,
+        contents: [...history, { role: "user", parts: message }],
+        config,
+      });
+    } catch (e) {
+      settleTokens(0);
+      throw e;
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "no-cache",
+      "X-Tokens-Remaining": String(tracker.remainingTokens(key)),
+    });
+
+    try {
+      for await (const response of stream) {
+        const usage = response.usageMetadata;
+        const chunk: ChatStreamChunk = {
+          text: replyText(response),
+          functionCalls: response.functionCalls?.map(call => ({ id: call.id, name: call.name ?? "", args: call.args ?? {} })),
+          finishReason: response.candidates?.[0]?.finishReason,
+          safetyRatings: toSafetyRatings(response.candidates?.[0]?.safetyRatings),
+          blockReason: response.promptFeedback?.blockReason,
+          usage: usage && {
+            promptTokens: usage.promptTokenCount ?? 0,
+            responseTokens: usage.candidatesTokenCount ?? 0,
+            thinkingTokens: usage.thoughtsTokenCount ?? 0,
+            totalTokens: usage.totalTokenCount ?? 0,
+          },
+        };
+        if (chunk.usage) totalTokens = chunk.usage.totalTokens;
+        writeLine(res, chunk);
+      }
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        console.error("Gemini stream failed:", e);
+        writeLine(res, { error: { status: upstreamStatus(e), message: e instanceof Error ? e.message : "Upstream error" } });
+      }
+    } finally {
+      settleTokens(totalTokens);
+      res.end();
+    }
+  };
+}
+
+/**
+ * `POST /api/count-tokens`: sizes a context with the model's own tokenizer. Counting is
+ * free upstream but each call still costs a request against the caller's rate limit.
+ */
+export function createCountTokensHandler(ai: GoogleGenAI, quotas: ProxyQuotas) {
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const { tracker, key } = await chargeCaller(req, quotas);
+    tracker.checkRequest(key);
+    const { contents, model } = parseCountTokensRequest(await readJson(req));
+    const { totalTokens } = await ai.models.countTokens({ model, contents });
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ totalTokens: totalTokens ?? 0 }));
+  };
+}
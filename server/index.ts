@@ -0,0 +1,77 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { GoogleGenAI } from "@google/genai";
+import { AuthError } from "./auth";
+import { BadRequestError, createChatHandler, createCountTokensHandler, upstreamStatus } from "./chatHandler";
+import { QuotaError, createQuotaTracker } from "./quota";
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  throw new Error("GEMINI_API_KEY environment variable not set");
+}
+
+const port = Number(process.env.PORT ?? 8787);
+const allowedOrigin = process.env.ALLOWED_ORIGIN ?? "http://localhost:5173";
+
+const quotas = {
+  accounts: createQuotaTracker({
+    requestsPerMinute: Number(process.env.RATE_LIMIT_PER_MINUTE ?? 20),
+    dailyTokenQuota: Number(process.env.DAILY_TOKEN_QUOTA ?? 500_000),
+  }),
+  guests: createQuotaTracker({
+    requestsPerMinute: Number(process.env.GUEST_RATE_LIMIT_PER_MINUTE ?? 5),
+    dailyTokenQuota: Number(process.env.GUEST_DAILY_TOKEN_QUOTA ?? 50_000),
+  }),
+};
+const ai = new GoogleGenAI({ apiKey });
+
+const routes: Record<string, (req: IncomingMessage, res: ServerResponse) => Promise<void>> = {
+  "/api/chat": createChatHandler(ai, quotas),
+  "/api/count-tokens": createCountTokensHandler(ai, quotas),
+};
+
+function sendError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}) {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify({ error: { status, message } }));
+}
+
+const server = createServer(async (req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", allowedOrigin);
+  res.setHeader("Access-Control-Allow-Headers", "Authorization, Content-Type");
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204).end();
+    return;
+  }
+  const handler = routes[req.url ?? ""];
+  if (!handler || req.method !== "POST") {
+    sendError(res, 404, "Not found");
+    return;
+  }
+
+  try {
+    await handler(req, res);
+  } catch (e) {
+    if (e instanceof AuthError) {
+      sendError(res, 401, e.message);
+    } else if (e instanceof QuotaError) {
+      sendError(res, 429, e.message, { "Retry-After": String(e.retryAfterSeconds) });
+    } else if (e instanceof BadRequestError) {
+      sendError(res, 400, e.message);
+    } else {
+      console.error(`${req.url} request failed:`, e);
+      sendError(res, upstreamStatus(e), e instanceof Error ? e.message : "Upstream error");
+    }
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Chat proxy listening on http://localhost:${port}`);
+  if (process.env.FIREBASE_AUTH_EMULATOR_HOST) {
+    console.log(`Verifying ID tokens against the Auth emulator at ${process.env.FIREBASE_AUTH_EMULATOR_HOST}`);
+  }
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { QuotaError, createQuotaTracker } from "./quota";
+
+const NOON = Date.UTC(2025, 2, 10, 12);
+
+describe("quota tracker", () => {
+  it("limits requests per minute and reports when to retry", () => {
+    const quotas = createQuotaTracker({ requestsPerMinute: 2, dailyTokenQuota: 1000 });
+    quotas.checkRequest("u1", NOON);
+    quotas.checkRequest("u1", NOON + 10_000);
+    const error = (() => {
+      try {
+        quotas.checkRequest("u1", NOON + 20_000);
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(QuotaError);
+    expect((error as QuotaError).retryAfterSeconds).toBe(40);
+    expect(() => quotas.checkRequest("u2", NOON + 20_000)).not.toThrow();
+    expect(() => quotas.checkRequest("u1", NOON + 60_000)).not.toThrow();
+  });
+
+  it("refuses requests once the day's tokens are spent, until the next UTC day", () => {
+    const quotas = createQuotaTracker({ requestsPerMinute: 100, dailyTokenQuota: 1000 });
+    quotas.reserveTokens("u1", 500)(1000);
+    expect(quotas.remainingTokens("u1")).toBe(0);
+    expect(() => quotas.checkRequest("u1")).toThrow("Daily token quota exceeded");
+    expect(quotas.remainingTokens("u1", Date.now() + 24 * 60 * 60 * 1000)).toBe(1000);
+  });
+
+  it("counts tokens held by requests still running", () => {
+    const quotas = createQuotaTracker({ requestsPerMinute: 100, dailyTokenQuota: 1000 });
+    const settleFirst = quotas.reserveTokens("u1", 600);
+    const settleSecond = quotas.reserveTokens("u1", 600);
+    expect(() => quotas.reserveTokens("u1", 600)).toThrow(QuotaError);
+    expect(() => quotas.checkRequest("u1")).toThrow(QuotaError);
+
+    settleFirst(100);
+    settleSecond(100);
+    expect(quotas.remainingTokens("u1")).toBe(800);
+    expect(() => quotas.reserveTokens("u1", 600)).not.toThrow();
+  });
+
+  it("settles a hold only once", () => {
+    const quotas = createQuotaTracker({ requestsPerMinute: 100, dailyTokenQuota: 1000 });
+    const settle = quotas.reserveTokens("u1", 100);
+    settle(100);
+    settle(100);
+    expect(quotas.remainingTokens("u1")).toBe(900);
+  });
+});
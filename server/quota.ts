@@ -0,0 +1,83 @@
+// In-memory limits, reset on restart. Good enough for a single-instance proxy; a
+// multi-instance deployment would move these counters into a shared store.
+
+export interface QuotaConfig {
+  requestsPerMinute: number;
+  dailyTokenQuota: number;
+}
+
+export class QuotaError extends Error {
+  constructor(message: string, public readonly retryAfterSeconds: number) {
+    super(message);
+    this.name = "QuotaError";
+  }
+}
+
+const WINDOW_MS = 60_000;
+
+const utcDay = (now: number) => new Date(now).toISOString().slice(0, 10);
+
+export function createQuotaTracker(config: QuotaConfig) {
+  const requestLog = new Map<string, number[]>();
+  const tokenUsage = new Map<string, { day: string; tokens: number }>();
+  // Estimated tokens of requests still running, which count against the quota until they settle.
+  const reserved = new Map<string, number>();
+
+  const tokensUsedToday = (uid: string, now: number) => {
+    const usage = tokenUsage.get(uid);
+    return usage && usage.day === utcDay(now) ? usage.tokens : 0;
+  };
+
+  const assertTokensLeft = (uid: string, now: number) => {
+    if (tokensUsedToday(uid, now) + (reserved.get(uid) ?? 0) >= config.dailyTokenQuota) {
+      const midnight = new Date(utcDay(now)).getTime() + 24 * 60 * 60 * 1000;
+      throw new QuotaError("Daily token quota exceeded", Math.ceil((midnight - now) / 1000));
+    }
+  };
+
+  const recordTokens = (uid: string, tokens: number, now: number) => {
+    tokenUsage.set(uid, { day: utcDay(now), tokens: tokensUsedToday(uid, now) + tokens });
+  };
+
+  return {
+    /**
+     * Records a request for `uid`.
+     * @throws {QuotaError} when the per-minute rate or the daily token quota is exhausted.
+     */
+    checkRequest(uid: string, now = Date.now()): void {
+      assertTokensLeft(uid, now);
+      const recent = (requestLog.get(uid) ?? []).filter(time => now - time < WINDOW_MS);
+      if (recent.length >= config.requestsPerMinute) {
+        throw new QuotaError("Rate limit exceeded", Math.ceil((recent[0] + WINDOW_MS - now) / 1000));
+      }
+      recent.push(now);
+      requestLog.set(uid, recent);
+    },
+
+    /**
+     * Holds `estimate` tokens of `uid`'s daily quota while a request runs, so parallel
+     * requests can't all spend the same remaining balance. Call the returned function
+     * once with the tokens actually used; it releases the hold and records them.
+     * @throws {QuotaError} when the daily quota, including other holds, is exhausted.
+     */
+    reserveTokens(uid: string, estimate: number, now = Date.now()): (tokensUsed: number) => void {
+      assertTokensLeft(uid, now);
+      reserved.set(uid, (reserved.get(uid) ?? 0) + estimate);
+      let settled = false;
+      return tokensUsed => {
+        if (settled) return;
+        settled = true;
+        const remaining = (reserved.get(uid) ?? 0) - estimate;
+        if (remaining > 0) reserved.set(uid, remaining);
+        else reserved.delete(uid);
+        recordTokens(uid, tokensUsed, Date.now());
+      };
+    },
+
+    remainingTokens(uid: string, now = Date.now()): number {
+      return Math.max(0, config.dailyTokenQuota - tokensUsedToday(uid, now));
+    },
+  };
+}
+
+export type QuotaTracker = ReturnType<typeof createQuotaTracker>;
@@ -0,0 +1,155 @@
+import { generateId } from "./conversationStore";
+
+// Attachment bytes live in IndexedDB; messages only keep the id. localStorage is
+// far too small (and string-only) to hold images.
+const DB_NAME = "gemini-chat-attachments";
+const DB_VERSION = 1;
+const STORE_NAME = "attachments";
+
+/** Per-user cap on stored attachment bytes. */
+export const ATTACHMENT_QUOTA_BYTES = 100 * 1024 * 1024;
+
+export interface StoredAttachment {
+  id: string;
+  uid: string;
+  conversationId: string;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+  blob: Blob;
+}
+
+export class AttachmentQuotaError extends Error {
+  constructor(public readonly usedBytes: number, public readonly requestedBytes: number) {
+    super(`Attachment storage is full (${formatBytes(usedBytes)} of ${formatBytes(ATTACHMENT_QUOTA_BYTES)} used). Delete some conversations to free up space.`);
+    this.name = "AttachmentQuotaError";
+  }
+}
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/** Base64 payload of a blob, without the `data:` URL prefix. */
+export const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve((reader.result as string).split(",")[1]);
+    reader.onerror = (error) => reject(error);
+  });
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+        store.createIndex("uid", "uid");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T>): Promise<T> {
+  const db = await openDb();
+  return run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+}
+
+const listForUser = (uid: string): Promise<StoredAttachment[]> =>
+  withStore("readonly", store => promisify(store.index("uid").getAll(uid)));
+
+export async function getStorageUsage(uid: string): Promise<number> {
+  const attachments = await listForUser(uid);
+  return attachments.reduce((total, att) => total + att.size, 0);
+}
+
+/**
+ * Stores a file for a conversation and returns its id.
+ * @throws {AttachmentQuotaError} when the user's quota would be exceeded.
+ */
+export async function saveAttachment(uid: string, conversationId: string, blob: Blob): Promise<string> {
+  const used = await getStorageUsage(uid);
+  if (used + blob.size > ATTACHMENT_QUOTA_BYTES) {
+    throw new AttachmentQuotaError(used, blob.size);
+  }
+  const attachment: StoredAttachment = {
+    id: generateId(),
+    uid,
+    conversationId,
+    mimeType: blob.type,
+    size: blob.size,
+    createdAt: Date.now(),
+    blob,
+  };
+  await withStore("readwrite", store => promisify(store.put(attachment)));
+  return attachment.id;
+}
+
+export async function getAttachment(id: string): Promise<StoredAttachment | undefined> {
+  try {
+    return await withStore("readonly", store => promisify<StoredAttachment | undefined>(store.get(id)));
+  } catch (e) {
+    console.error("Failed to load attachment:", e);
+    return undefined;
+  }
+}
+
+async function deleteWhere(uid: string, shouldDelete: (att: StoredAttachment) => boolean): Promise<void> {
+  const attachments = await listForUser(uid);
+  const doomed = attachments.filter(shouldDelete);
+  if (doomed.length === 0) return;
+  await withStore("readwrite", store => Promise.all(doomed.map(att => promisify(store.delete(att.id)))));
+}
+
+export async function deleteConversationAttachments(uid: string, conversationId: string): Promise<void> {
+  try {
+    await deleteWhere(uid, att => att.conversationId === conversationId);
+  } catch (e) {
+    console.error("Failed to delete conversation attachments:", e);
+  }
+}
+
+export async function deleteAllAttachments(uid: string): Promise<void> {
+  try {
+    await deleteWhere(uid, () => true);
+  } catch (e) {
+    console.error("Failed to delete attachments:", e);
+  }
+}
+
+/** Hands a guest's files to the account they signed in to; ids, and so message references, stay the same. */
+export async function reassignAttachments(fromUid: string, toUid: string): Promise<void> {
+  try {
+    const attachments = await listForUser(fromUid);
+    if (attachments.length === 0) return;
+    await withStore("readwrite", store => Promise.all(attachments.map(att => promisify(store.put({ ...att, uid: toUid })))));
+  } catch (e) {
+    console.error("Failed to move attachments:", e);
+  }
+}
+
+/** Removes attachments no longer referenced by any stored message. */
+export async function pruneOrphanedAttachments(uid: string, referencedIds: Set<string>): Promise<void> {
+  try {
+    await deleteWhere(uid, att => !referencedIds.has(att.id));
+  } catch (e) {
+    console.error("Failed to prune attachments:", e);
+  }
+}
@@ -0,0 +1,172 @@
+import firebase from "firebase/compat/app";
+import { auth } from "./firebase";
+import { deleteAllAttachments, reassignAttachments } from "./attachmentStore";
+import { clearConversations, loadConversations, saveConversations } from "./conversationStore";
+import { deleteSyncedConversations } from "./conversationSync";
+import { clearPersonas, loadPersonas, savePersonas } from "./personaStore";
+import { clearPromptTemplates, loadPromptTemplates, mergeTemplates, savePromptTemplates } from "./promptTemplates";
+import { clearVoiceSettings, moveVoiceSettings } from "./speech";
+import { clearUsageLog, clearUsageSettings, moveUsageLog, moveUsageSettings } from "./usageStats";
+
+// Account flows on top of Firebase Auth. Guests are anonymous users: signing up links
+// the credential to the same uid, so their history simply stays put. Signing in to an
+// existing account changes uid, so the guest's history is handed over on arrival.
+
+// Set just before a guest signs in to an existing account; read once that account loads.
+const PENDING_GUEST_KEY = "gemini-chat-pending-guest";
+
+const FRIENDLY_MESSAGES: Record<string, string> = {
+  "auth/invalid-email": "That doesn't look like a valid email address.",
+  "auth/missing-email": "Enter your email address first.",
+  "auth/user-not-found": "Incorrect email or password.",
+  "auth/wrong-password": "Incorrect email or password.",
+  "auth/invalid-credential": "Incorrect email or password.",
+  "auth/invalid-login-credentials": "Incorrect email or password.",
+  "auth/email-already-in-use": "An account with this email already exists. Log in instead.",
+  "auth/credential-already-in-use": "That account is already registered. Log in instead.",
+  "auth/weak-password": "Choose a password of at least 6 characters.",
+  "auth/too-many-requests": "Too many attempts. Wait a few minutes and try again.",
+  "auth/network-request-failed": "Can't reach the sign-in service. Check your connection.",
+  "auth/user-disabled": "This account has been disabled.",
+  "auth/popup-blocked": "The sign-in window was blocked. Allow pop-ups for this site and try again.",
+  "auth/popup-closed-by-user": "The sign-in window was closed before finishing.",
+  "auth/cancelled-popup-request": "The sign-in window was closed before finishing.",
+  "auth/requires-recent-login": "For your security, sign in again before doing that.",
+  "auth/operation-not-allowed": "This sign-in method isn't enabled for this app.",
+  "auth/account-exists-with-different-credential": "An account already exists with this email. Log in with your password instead.",
+};
+
+/** A message fit to show the user for any error thrown by the functions below. */
+export function authErrorMessage(error: unknown): string {
+  const code = (error as { code?: string } | null)?.code;
+  if (code && FRIENDLY_MESSAGES[code]) return FRIENDLY_MESSAGES[code];
+  console.error("Unexpected auth error:", error);
+  return "Something went wrong. Please try again.";
+}
+
+const currentGuest = (): firebase.User | null => (auth.currentUser?.isAnonymous ? auth.currentUser : null);
+
+/** Remembers the guest so `claimGuestData` can move their history into the account they sign in to. */
+async function signInFromGuest(signIn: () => Promise<unknown>): Promise<void> {
+  const guest = currentGuest();
+  if (guest) localStorage.setItem(PENDING_GUEST_KEY, guest.uid);
+  try {
+    await signIn();
+  } catch (e) {
+    localStorage.removeItem(PENDING_GUEST_KEY);
+    throw e;
+  }
+}
+
+export const isPasswordUser = (user: firebase.User): boolean =>
+  user.providerData.some(provider => provider?.providerId === "password");
+
+/** Email/password accounts can't chat until they follow the link in the verification email. */
+export const needsEmailVerification = (user: firebase.User): boolean => isPasswordUser(user) && !user.emailVerified;
+
+export const continueAsGuest = async (): Promise<void> => {
+  await auth.signInAnonymously();
+};
+
+export async function signInWithEmail(email: string, password: string): Promise<void> {
+  await signInFromGuest(() => auth.signInWithEmailAndPassword(email, password));
+}
+
+export async function signUpWithEmail(email: string, password: string): Promise<void> {
+  const guest = currentGuest();
+  const credential = guest
+    ? await guest.linkWithCredential(firebase.auth.EmailAuthProvider.credential(email, password))
+    : await auth.createUserWithEmailAndPassword(email, password);
+  await credential.user?.sendEmailVerification();
+}
+
+export async function signInWithGoogle(): Promise<void> {
+  const provider = new firebase.auth.GoogleAuthProvider();
+  const guest = currentGuest();
+  if (!guest) {
+    await auth.signInWithPopup(provider);
+    return;
+  }
+  try {
+    await guest.linkWithPopup(provider);
+  } catch (e) {
+    // The Google account already has a user of its own: switch to it and bring the history along.
+    const existing = (e as { code?: string; credential?: firebase.auth.AuthCredential | null });
+    if (existing.code !== "auth/credential-already-in-use" || !existing.credential) throw e;
+    const credential = existing.credential;
+    await signInFromGuest(() => auth.signInWithCredential(credential));
+  }
+}
+
+export const sendPasswordReset = (email: string): Promise<void> => auth.sendPasswordResetEmail(email);
+
+export async function resendVerificationEmail(): Promise<void> {
+  await auth.currentUser?.sendEmailVerification();
+}
+
+/** Picks up a verification done in another tab, and refreshes the token so the proxy sees it too. */
+export async function refreshVerification(): Promise<boolean> {
+  const user = auth.currentUser;
+  if (!user) return false;
+  await user.reload();
+  if (user.emailVerified) await user.getIdToken(true);
+  return user.emailVerified;
+}
+
+/**
+ * Moves history left by a guest who has just signed in to `uid`. Returns true if
+ * anything was moved. Runs before the account's own history is loaded.
+ */
+export async function claimGuestData(uid: string): Promise<boolean> {
+  const guestUid = localStorage.getItem(PENDING_GUEST_KEY);
+  localStorage.removeItem(PENDING_GUEST_KEY);
+  if (!guestUid || guestUid === uid) return false;
+
+  const guestConversations = loadConversations(guestUid).filter(conv => conv.messages.some(msg => msg.role === "user"));
+  // If the merge can't be written (e.g. storage is full), leave the guest's copy where it is.
+  if (!saveConversations(uid, [...guestConversations, ...loadConversations(uid)])) return false;
+  const customPersonas = loadPersonas(guestUid).slice(1);
+  if (customPersonas.length > 0) savePersonas(uid, [...loadPersonas(uid), ...customPersonas]);
+  savePromptTemplates(uid, mergeTemplates(loadPromptTemplates(uid), loadPromptTemplates(guestUid)));
+  clearConversations(guestUid);
+  clearPersonas(guestUid);
+  clearPromptTemplates(guestUid);
+  moveVoiceSettings(guestUid, uid);
+  moveUsageSettings(guestUid, uid);
+  moveUsageLog(guestUid, uid, loadConversations(uid));
+  await reassignAttachments(guestUid, uid);
+  return guestConversations.length > 0;
+}
+
+/** Password accounts confirm with their current password; Google accounts with a fresh popup. */
+async function reauthenticate(user: firebase.User, password?: string): Promise<void> {
+  if (user.isAnonymous) return;
+  if (isPasswordUser(user)) {
+    await user.reauthenticateWithCredential(firebase.auth.EmailAuthProvider.credential(user.email ?? "", password ?? ""));
+  } else {
+    await user.reauthenticateWithPopup(new firebase.auth.GoogleAuthProvider());
+  }
+}
+
+export async function changePassword(currentPassword: string, newPassword: string): Promise<void> {
+  const user = auth.currentUser;
+  if (!user) return;
+  await reauthenticate(user, currentPassword);
+  await user.updatePassword(newPassword);
+}
+
+/** Wipes the user's history everywhere it is stored, then deletes the account itself. */
+export async function deleteAccount(password?: string): Promise<void> {
+  const user = auth.currentUser;
+  if (!user) return;
+  await reauthenticate(user, password);
+  if (!user.isAnonymous) await deleteSyncedConversations(user.uid);
+  await deleteAllAttachments(user.uid);
+  clearConversations(user.uid);
+  clearPersonas(user.uid);
+  clearPromptTemplates(user.uid);
+  clearVoiceSettings(user.uid);
+  clearUsageSettings(user.uid);
+  clearUsageLog(user.uid);
+  await user.delete();
+}
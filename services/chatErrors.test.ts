@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ChatRequestError } from "./chatProvider";
+import { MAX_AUTO_RETRIES, classifyError, describeFinishReason, emptyReplyError, isTruncated, notableRatings, retryDelayMs } from "./chatErrors";
+
+describe("classifyError", () => {
+  it.each([
+    [0, "network", true],
+    [401, "auth", false],
+    [403, "auth", false],
+    [429, "quota", true],
+    [400, "server", false],
+    [502, "server", true],
+    [503, "server", true],
+  ])("classifies status %i as %s", (status, kind, transient) => {
+    expect(classifyError(new ChatRequestError("failed", status))).toMatchObject({ kind, transient });
+  });
+
+  it("keeps the server's Retry-After", () => {
+    expect(classifyError(new ChatRequestError("Rate limit exceeded", 429, 12))).toMatchObject({ message: "Rate limit exceeded", retryAfterSeconds: 12 });
+  });
+
+  it("treats a dropped connection as a network error", () => {
+    expect(classifyError(new TypeError("Failed to fetch")).kind).toBe("network");
+  });
+
+  it("falls back to a transient server error", () => {
+    expect(classifyError(new Error("boom"))).toMatchObject({ kind: "server", transient: true });
+  });
+});
+
+describe("retryDelayMs", () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it("backs off exponentially with jitter", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const error = classifyError(new ChatRequestError("down", 503));
+    expect([0, 1, 2].map(attempt => retryDelayMs(error, attempt))).toEqual([1000, 2000, 4000]);
+  });
+
+  it("gives up after the last automatic retry or on permanent errors", () => {
+    expect(retryDelayMs(classifyError(new ChatRequestError("down", 503)), MAX_AUTO_RETRIES)).toBeNull();
+    expect(retryDelayMs(classifyError(new ChatRequestError("bad", 400)), 0)).toBeNull();
+  });
+
+  it("honours a short Retry-After and leaves a long one to the user", () => {
+    expect(retryDelayMs(classifyError(new ChatRequestError("slow down", 429, 5)), 0)).toBe(5000);
+    expect(retryDelayMs(classifyError(new ChatRequestError("quota", 429, 3600)), 0)).toBeNull();
+  });
+});
+
+describe("finish reasons", () => {
+  it("treats only non-STOP reasons as truncation", () => {
+    expect(isTruncated(undefined)).toBe(false);
+    expect(isTruncated("STOP")).toBe(false);
+    expect(isTruncated("MAX_TOKENS")).toBe(true);
+    expect(describeFinishReason("NEW_REASON")).toBe("The reply ended early (NEW_REASON).");
+  });
+
+  it("explains an empty reply by its cause", () => {
+    expect(emptyReplyError(undefined, "SAFETY")).toMatchObject({ kind: "safety", transient: false });
+    expect(emptyReplyError("MAX_TOKENS", undefined)).toMatchObject({ kind: "max-tokens", transient: false });
+    expect(emptyReplyError("RECITATION", undefined)).toMatchObject({ kind: "safety", transient: false });
+    expect(emptyReplyError("STOP", undefined)).toMatchObject({ kind: "empty", transient: true });
+  });
+
+  it("keeps only notable safety ratings", () => {
+    const ratings = [
+      { category: "HARM_CATEGORY_HARASSMENT", probability: "NEGLIGIBLE" },
+      { category: "HARM_CATEGORY_HATE_SPEECH", probability: "MEDIUM" },
+      { category: "HARM_CATEGORY_DANGEROUS_CONTENT", probability: "NEGLIGIBLE", blocked: true },
+    ];
+    expect(notableRatings(ratings).map(rating => rating.category)).toEqual(["HARM_CATEGORY_HATE_SPEECH", "HARM_CATEGORY_DANGEROUS_CONTENT"]);
+  });
+});
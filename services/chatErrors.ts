@@ -0,0 +1,91 @@
+import { ChatRequestError } from "./chatProvider";
+import type { SafetyRating } from "../types";
+
+// Turns whatever a failed or cut-short reply left behind into something the UI can
+// explain, and decides which failures are worth retrying on their own.
+
+export type ChatErrorKind = "network" | "auth" | "quota" | "safety" | "max-tokens" | "server" | "empty";
+
+export interface ChatError {
+  kind: ChatErrorKind;
+  message: string;
+  /** Whether sending the same request again could succeed. */
+  transient: boolean;
+  retryAfterSeconds?: number;
+}
+
+export const MAX_AUTO_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+// A longer wait, like a spent daily quota, is left to the user's Retry button.
+const MAX_RETRY_AFTER_SECONDS = 30;
+
+export function classifyError(error: unknown): ChatError {
+  if (error instanceof ChatRequestError) {
+    const { status, retryAfterSeconds } = error;
+    if (status === 0) return { kind: "network", message: error.message, transient: true };
+    if (status === 401) return { kind: "auth", message: "Your sign-in has expired or your email isn't verified yet. Sign in again to continue.", transient: false };
+    if (status === 403) return { kind: "auth", message: "The chat server's API key was rejected. Ask the administrator to check it.", transient: false };
+    if (status === 429) return { kind: "quota", message: error.message || "Too many requests. Wait a moment and try again.", transient: true, retryAfterSeconds };
+    if (status === 400) return { kind: "server", message: `The request was rejected: ${error.message}`, transient: false };
+    return { kind: "server", message: "The model is unavailable right now. Try again in a moment.", transient: true };
+  }
+  // fetch rejects with a TypeError when the connection drops mid-stream.
+  if (error instanceof TypeError || (typeof navigator !== "undefined" && !navigator.onLine)) {
+    return { kind: "network", message: "The connection was lost. Check your network and try again.", transient: true };
+  }
+  return { kind: "server", message: "Something went wrong while generating the response.", transient: true };
+}
+
+/** Milliseconds to wait before automatic retry number `attempt` (from 0), or `null` to give up. */
+export function retryDelayMs(error: ChatError, attempt: number): number | null {
+  if (!error.transient || attempt >= MAX_AUTO_RETRIES) return null;
+  if (error.retryAfterSeconds !== undefined) {
+    return error.retryAfterSeconds <= MAX_RETRY_AFTER_SECONDS ? error.retryAfterSeconds * 1000 : null;
+  }
+  // Exponential with jitter so clients that failed together don't retry together.
+  return BASE_RETRY_DELAY_MS * 2 ** attempt * (0.75 + Math.random() / 2);
+}
+
+const FINISH_REASON_LABELS: Record<string, string> = {
+  MAX_TOKENS: "The reply reached the maximum output length.",
+  SAFETY: "The reply was stopped by safety filters.",
+  RECITATION: "The reply was stopped because it closely repeated existing material.",
+  LANGUAGE: "The reply was stopped because the language isn't supported.",
+  BLOCKLIST: "The reply was stopped because it contained blocked terms.",
+  PROHIBITED_CONTENT: "The reply was stopped for prohibited content.",
+  SPII: "The reply was stopped because it may contain sensitive personal information.",
+  MALFORMED_FUNCTION_CALL: "The model made a malformed tool call.",
+};
+
+/** Finish reasons meaning a reply ended early; `STOP` and unknown-but-benign ones are absent. */
+export const isTruncated = (finishReason: string | undefined): boolean =>
+  finishReason !== undefined && finishReason !== "STOP" && finishReason !== "FINISH_REASON_UNSPECIFIED";
+
+export const describeFinishReason = (finishReason: string): string =>
+  FINISH_REASON_LABELS[finishReason] ?? `The reply ended early (${finishReason}).`;
+
+/**
+ * The error for a turn that produced no visible text, e.g. a refused prompt or a
+ * budget spent entirely on thinking.
+ */
+export function emptyReplyError(finishReason: string | undefined, blockReason: string | undefined): ChatError {
+  if (blockReason) {
+    return { kind: "safety", message: `The prompt was blocked (${formatRatingLabel(blockReason)}). Rephrase it and try again.`, transient: false };
+  }
+  if (finishReason === "MAX_TOKENS") {
+    return { kind: "max-tokens", message: "The model used its whole output budget before answering. Raise max output tokens or lower the thinking budget.", transient: false };
+  }
+  if (isTruncated(finishReason)) {
+    const kind = finishReason === "MALFORMED_FUNCTION_CALL" || finishReason === "OTHER" ? "empty" : "safety";
+    return { kind, message: describeFinishReason(finishReason!), transient: kind === "empty" };
+  }
+  return { kind: "empty", message: "The model returned an empty response.", transient: true };
+}
+
+/** `HARM_CATEGORY_DANGEROUS_CONTENT` → "dangerous content". */
+export const formatRatingLabel = (value: string): string =>
+  value.replace(/^(HARM_CATEGORY_|HARM_PROBABILITY_)/, "").replace(/_/g, " ").toLowerCase();
+
+/** Ratings worth showing: anything that was blocked or rated above negligible. */
+export const notableRatings = (ratings: SafetyRating[] | undefined): SafetyRating[] =>
+  ratings?.filter(rating => rating.blocked || !["NEGLIGIBLE", "HARM_PROBABILITY_UNSPECIFIED"].includes(rating.probability)) ?? [];
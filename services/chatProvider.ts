@@ -0,0 +1,115 @@
+import type { ChatSettings, Persona, SafetyRating } from "../types";
+
+// Provider-neutral chat types. The UI only talks to these, so a backend can be
+// swapped (or mocked) without touching components.
+
+export type ChatPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | { functionCall: FunctionCall }
+  | { functionResponse: FunctionResponse };
+
+/** A tool the model asked to run. `id` pairs it with its response when the model sends one. */
+export interface FunctionCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface FunctionResponse {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+/** Describes a tool to the model; `parameters` is a JSON Schema object. */
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ChatContent {
+  role: "user" | "model";
+  parts: ChatPart[];
+}
+
+export interface UsageData {
+  promptTokens: number;
+  responseTokens: number;
+  thinkingTokens: number;
+  totalTokens: number;
+}
+
+/** One streamed piece of a reply. Usage, finish reason and ratings usually arrive with the last chunk. */
+export interface ChatStreamChunk {
+  text?: string;
+  /** Tools to run; reply with their `functionResponse` parts to continue the turn. */
+  functionCalls?: FunctionCall[];
+  usage?: UsageData;
+  finishReason?: string;
+  safetyRatings?: SafetyRating[];
+  /** Set when the prompt itself was refused, in which case no reply follows. */
+  blockReason?: string;
+}
+
+/**
+ * A failed request with an HTTP-style status, whichever provider raised it. `0` means
+ * the request never reached the server.
+ */
+export class ChatRequestError extends Error {
+  constructor(message: string, public readonly status: number, public readonly retryAfterSeconds?: number) {
+    super(message);
+    this.name = "ChatRequestError";
+  }
+}
+
+export interface SendOptions {
+  signal?: AbortSignal;
+}
+
+export interface ChatSession {
+  sendMessageStream(parts: ChatPart[], options?: SendOptions): AsyncIterable<ChatStreamChunk>;
+}
+
+export interface ChatProvider {
+  readonly id: string;
+  createChat(history: ChatContent[], settings: ChatSettings, persona?: Persona, tools?: ToolDeclaration[]): ChatSession;
+  /** Size of `contents` in the model's own tokens. */
+  countTokens(contents: ChatContent[], settings: ChatSettings): Promise<number>;
+}
+
+export const AVAILABLE_MODELS = [
+  { id: "gemini-2.5-flash", label: "Gemini 2.5 Flash" },
+  { id: "gemini-2.5-pro", label: "Gemini 2.5 Pro" },
+  { id: "gemini-2.5-flash-lite", label: "Gemini 2.5 Flash-Lite" },
+];
+
+export const DEFAULT_SYSTEM_INSTRUCTION = "You are a helpful and friendly AI assistant. Your goal is to provide accurate and concise answers to user queries, helping them solve their problems.";
+
+// Use gemini-2.5-flash for its balance of speed and capability. Sampling values left
+// undefined fall back to the model's own defaults.
+export const DEFAULT_CHAT_SETTINGS: ChatSettings = {
+  model: "gemini-2.5-flash",
+};
+
+/** Body of a `POST /api/chat` request to the proxy server (see `server/`). */
+export interface ChatProxyRequest {
+  history: ChatContent[];
+  message: ChatPart[];
+  settings: ChatSettings;
+  systemInstruction: string;
+  tools?: ToolDeclaration[];
+}
+
+/** Body of a `POST /api/count-tokens` request; the response is `{ totalTokens }`. */
+export interface CountTokensRequest {
+  contents: ChatContent[];
+  model: string;
+}
+
+/**
+ * The proxy streams newline-delimited JSON: one `ChatStreamChunk` per line, or a
+ * final `{ error }` line if generation fails after the response has started.
+ */
+export type ChatProxyLine = ChatStreamChunk | { error: { status: number; message: string } };
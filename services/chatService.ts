@@ -0,0 +1,32 @@
+import type { ChatSettings, Persona } from "../types";
+import type { ChatContent, ChatProvider, ChatSession, ToolDeclaration } from "./chatProvider";
+import { createGeminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockProvider";
+
+const parseNumber = (value: string | undefined, fallback: number): number =>
+  value !== undefined && value !== "" && !Number.isNaN(Number(value)) ? Number(value) : fallback;
+
+/**
+ * Picks the backend from env config: `CHAT_PROVIDER=mock` uses the offline mock,
+ * anything else talks to Gemini through the proxy server.
+ */
+function selectProvider(): ChatProvider {
+  if (process.env.CHAT_PROVIDER !== "mock") {
+    return createGeminiProvider(process.env.CHAT_PROXY_URL || "/api");
+  }
+  return createMockProvider({
+    mode: process.env.MOCK_MODE === "scripted" ? "scripted" : "echo",
+    latencyMs: parseNumber(process.env.MOCK_LATENCY_MS, 40),
+    failEvery: parseNumber(process.env.MOCK_FAIL_EVERY, 0),
+  });
+}
+
+export const activeProvider: ChatProvider = selectProvider();
+
+export function createChat(history: ChatContent[], settings: ChatSettings, persona?: Persona, tools?: ToolDeclaration[]): ChatSession {
+  return activeProvider.createChat(history, settings, persona, tools);
+}
+
+export function countTokens(contents: ChatContent[], settings: ChatSettings): Promise<number> {
+  return activeProvider.countTokens(contents, settings);
+}
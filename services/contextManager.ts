@@ -0,0 +1,83 @@
+import type { ChatMessage, ChatSettings, ContextSummary, Conversation, MessageUsage } from "../types";
+import type { ChatContent } from "./chatProvider";
+import { createChat } from "./chatService";
+import { generateId } from "./conversationStore";
+
+// Keeps long conversations inside a manageable context: once a branch grows past a
+// token threshold, everything but the last few turns is folded into a summary that
+// is sent in place of those messages.
+
+export const DEFAULT_SUMMARIZE_AT_TOKENS = 100_000;
+
+/** Prompt/reply pairs always sent verbatim after a summary. */
+const KEEP_RECENT_TURNS = 2;
+
+const SUMMARIZER_INSTRUCTION = "You condense chat transcripts into context for a continuing conversation. Write a compact summary that preserves facts, decisions, the user's goals and preferences, open questions, and any code, names or numbers that later turns may refer to. Use terse bullet points. Do not add commentary.";
+
+/** The latest summary that covers part of `thread`, with the index it covers through. */
+export function findActiveSummary(conversation: Conversation, thread: ChatMessage[]): { summary: ContextSummary; throughIndex: number } | null {
+  let active: { summary: ContextSummary; throughIndex: number } | null = null;
+  for (const summary of conversation.summaries ?? []) {
+    const throughIndex = thread.findIndex(msg => msg.id === summary.throughMessageId);
+    if (throughIndex !== -1 && (!active || throughIndex > active.throughIndex)) {
+      active = { summary, throughIndex };
+    }
+  }
+  return active;
+}
+
+/** How a summary appears in the model's history: a user turn with the summary and a short acknowledgement. */
+export const summaryToContents = (summary: ContextSummary): ChatContent[] => [
+  { role: "user", parts: [{ text: `Summary of our earlier conversation, for context:\n\n${summary.text}` }] },
+  { role: "model", parts: [{ text: "Understood. I'll continue with that context in mind." }] },
+];
+
+/**
+ * Index of the last message to fold into a new summary: the message just before the
+ * most recent `KEEP_RECENT_TURNS` prompts. Returns -1 when nothing new would be covered.
+ */
+function chooseBoundary(thread: ChatMessage[], alreadyCoveredIndex: number): number {
+  const promptIndexes = thread.flatMap((msg, index) => (msg.role === "user" ? [index] : []));
+  if (promptIndexes.length <= KEEP_RECENT_TURNS) return -1;
+  const boundary = promptIndexes[promptIndexes.length - KEEP_RECENT_TURNS] - 1;
+  return boundary > alreadyCoveredIndex ? boundary : -1;
+}
+
+const transcriptLine = (msg: ChatMessage) => {
+  const files = (msg.attachments ?? []).map(att => att.name);
+  const attached = files.length > 0 ? ` [attached: ${files.join(", ")}]` : "";
+  return `${msg.role === "user" ? "User" : "Assistant"}${attached}: ${msg.text}`;
+};
+
+/**
+ * Summarises the older part of `thread`, folding in any summary already in effect.
+ * The summary is null when the thread is too short to need one; `usage` is what the
+ * summariser spent, for the usage log.
+ */
+export async function summarizeThread(conversation: Conversation, thread: ChatMessage[], settings: ChatSettings): Promise<{ summary: ContextSummary | null; usage: MessageUsage | null }> {
+  const active = findActiveSummary(conversation, thread);
+  const start = active ? active.throughIndex + 1 : 0;
+  const boundary = chooseBoundary(thread, start - 1);
+  if (boundary === -1) return { summary: null, usage: null };
+
+  const transcript = thread.slice(start, boundary + 1).map(transcriptLine).join("\n\n");
+  const prompt = active
+    ? `Existing summary:\n${active.summary.text}\n\nUpdate it with this continuation of the transcript:\n\n${transcript}`
+    : `Transcript:\n\n${transcript}`;
+
+  const chat = createChat([], { model: settings.model }, { id: "summarizer", name: "Summarizer", systemInstruction: SUMMARIZER_INSTRUCTION });
+  let text = "";
+  let usage: MessageUsage | null = null;
+  for await (const chunk of chat.sendMessageStream([{ text: prompt }])) {
+    if (chunk.text) text += chunk.text;
+    if (chunk.usage) {
+      const { promptTokens, responseTokens, thinkingTokens } = chunk.usage;
+      usage = { model: settings.model, promptTokens, responseTokens, thinkingTokens };
+    }
+  }
+  const summary = text.trim() ? { id: generateId(), throughMessageId: thread[boundary].id, text: text.trim(), createdAt: Date.now() } : null;
+  return { summary, usage };
+}
+
+export const formatTokenCount = (tokens: number): string =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(tokens >= 10_000 ? 0 : 1)}k` : String(tokens);
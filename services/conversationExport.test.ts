@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CHAT_SETTINGS } from "./chatProvider";
+import { EXPORT_FORMAT, EXPORT_VERSION, ImportError, parseConversationJson } from "./conversationExport";
+
+const message = (id: string, parentId: string | null, fields: Record<string, unknown> = {}) =>
+  ({ id, parentId, role: "user", text: id, createdAt: 1, ...fields });
+
+const exportJson = (conversation: Record<string, unknown> = {}, attachments: Record<string, unknown> = {}) => JSON.stringify({
+  format: EXPORT_FORMAT,
+  version: EXPORT_VERSION,
+  exportedAt: "2025-01-01T00:00:00.000Z",
+  conversation: {
+    id: "c1",
+    title: "Imported",
+    createdAt: 1,
+    updatedAt: 2,
+    messages: [message("m1", null), message("m2", "m1", { role: "model" })],
+    currentLeafId: "m2",
+    ...conversation,
+  },
+  attachments,
+});
+
+const importError = (text: string) => {
+  try {
+    parseConversationJson(text);
+  } catch (e) {
+    return e;
+  }
+  return null;
+};
+
+describe("parseConversationJson", () => {
+  it("accepts a valid export", () => {
+    const parsed = parseConversationJson(exportJson({ summaries: [{ id: "s1", throughMessageId: "m1", text: "Gist", createdAt: 3 }] }));
+    expect(parsed.conversation.messages.map(msg => msg.id)).toEqual(["m1", "m2"]);
+    expect(parsed.conversation.summaries).toHaveLength(1);
+  });
+
+  it("drops fields the app doesn't know", () => {
+    const parsed = parseConversationJson(exportJson({ messages: [message("m1", null, { injected: "<script>" })], currentLeafId: "m1" }));
+    expect(parsed.conversation.messages[0]).not.toHaveProperty("injected");
+  });
+
+  it.each([
+    ["not JSON", "{"],
+    ["another format", JSON.stringify({ format: "something-else" })],
+    ["a newer version", exportJson().replace(`"version":${EXPORT_VERSION}`, `"version":${EXPORT_VERSION + 1}`)],
+    ["a malformed message", exportJson({ messages: [message("m1", null, { role: "system" })] })],
+    ["duplicate message ids", exportJson({ messages: [message("m1", null), message("m1", null)] })],
+    ["a missing parent", exportJson({ messages: [message("m1", "gone")] })],
+    ["a parent cycle", exportJson({ messages: [message("m1", null), message("m2", "m3"), message("m3", "m2")] })],
+    ["summaries that aren't an array", exportJson({ summaries: { id: "s1" } })],
+    ["a malformed summary", exportJson({ summaries: [{ id: "s1", text: 4 }] })],
+    ["malformed settings", exportJson({ settings: { model: "gemini-2.5-flash", temperature: "hot" } })],
+    ["an attachment without data", exportJson({}, { a1: { mimeType: "image/png" } })],
+    ["an attachment that isn't base64", exportJson({}, { a1: { mimeType: "image/png", data: "not base64!" } })],
+  ])("rejects %s", (_name, text) => {
+    expect(importError(text)).toBeInstanceOf(ImportError);
+  });
+
+  it("falls back to the default model for one that isn't offered", () => {
+    const parsed = parseConversationJson(exportJson({ settings: { model: "retired-model", temperature: 0.5 } }));
+    expect(parsed.conversation.settings).toMatchObject({ model: DEFAULT_CHAT_SETTINGS.model, temperature: 0.5 });
+  });
+});
@@ -0,0 +1,341 @@
+import type { AttachmentRef, ChatMessage, ChatSettings, ContextSummary, Conversation, MessageUsage, SafetyRating, ToolCallRecord } from "../types";
+import { blobToBase64, getAttachment, saveAttachment } from "./attachmentStore";
+import { AVAILABLE_MODELS, DEFAULT_CHAT_SETTINGS } from "./chatProvider";
+import { createConversation } from "./conversationStore";
+import { getThread } from "./messageTree";
+
+export const EXPORT_FORMAT = "gemini-chat-conversation";
+export const EXPORT_VERSION = 1;
+
+/** Versioned JSON export: the full message tree plus every attachment, base64-encoded. */
+export interface ConversationExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  conversation: Conversation;
+  attachments: Record<string, { mimeType: string; data: string }>;
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+const roleLabel = (msg: ChatMessage) => (msg.role === "user" ? "You" : "Gemini");
+
+const allAttachmentRefs = (conversation: Conversation): AttachmentRef[] =>
+  conversation.messages.flatMap(msg => msg.attachments ?? []);
+
+/** A safe, readable file name for the export. */
+export const exportFileName = (conversation: Conversation, extension: string): string =>
+  `${conversation.title.replace(/[^\w\- ]+/g, "").trim().replace(/\s+/g, "-").slice(0, 60) || "conversation"}.${extension}`;
+
+/** The visible branch as Markdown. Message text is already Markdown, so code fences survive as-is. */
+export function toMarkdown(conversation: Conversation): string {
+  const sections = getThread(conversation).map(msg => {
+    const lines = [`### ${roleLabel(msg)}`, "", msg.text];
+    const names = (msg.attachments ?? []).map(att => att.name);
+    if (names.length > 0) lines.push("", `_Attachments: ${names.join(", ")}_`);
+    return lines.join("\n");
+  });
+  return [`# ${conversation.title}`, "", `_Exported ${new Date().toLocaleString()}_`, "", sections.join("\n\n---\n\n"), ""].join("\n");
+}
+
+async function collectAttachments(conversation: Conversation): Promise<ConversationExport["attachments"]> {
+  const attachments: ConversationExport["attachments"] = {};
+  for (const ref of allAttachmentRefs(conversation)) {
+    if (attachments[ref.id]) continue;
+    const stored = await getAttachment(ref.id);
+    if (stored) attachments[ref.id] = { mimeType: stored.mimeType, data: await blobToBase64(stored.blob) };
+  }
+  return attachments;
+}
+
+export async function toJson(conversation: Conversation): Promise<string> {
+  const exported: ConversationExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation,
+    attachments: await collectAttachments(conversation),
+  };
+  return JSON.stringify(exported, null, 2);
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Just enough of the app's look (Tailwind isn't available offline) for a readable transcript.
+const HTML_STYLES = `
+body { margin: 0; background: #111827; color: #f9fafb; font-family: Georgia, serif; font-size: 1.125rem; line-height: 1.7; }
+main { max-width: 56rem; margin: 0 auto; padding: 1rem; }
+h1 { color: #22d3ee; font-family: system-ui, sans-serif; }
+.meta { color: #9ca3af; font-size: 0.875rem; font-family: system-ui, sans-serif; }
+.row { display: flex; margin: 1rem 0; }
+.row.user { justify-content: flex-end; }
+.bubble { max-width: 42rem; border-radius: 0.75rem; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,.4); }
+.user .bubble { background: #0891b2; }
+.model .bubble { background: #374151; }
+.bubble > div { padding: 0.75rem; }
+.bubble img { display: block; max-width: 100%; max-height: 15rem; object-fit: cover; }
+.bubble audio { width: 100%; }
+.files { padding: 0.5rem 0.75rem; font-size: 0.875rem; color: #d1d5db; font-family: system-ui, sans-serif; }
+pre, code { font-family: ui-monospace, monospace; font-size: 0.9rem; }
+:not(pre) > code { background: rgba(31,41,55,.5); padding: 0.1rem 0.25rem; border-radius: 0.125rem; }
+a { color: #67e8f9; }
+table { border-collapse: collapse; } th, td { border: 1px solid #4b5563; padding: 0.25rem 0.5rem; }
+blockquote { border-left: 4px solid #4b5563; margin-left: 0; padding-left: 1rem; color: #d1d5db; }
+`;
+
+// Math is rendered to KaTeX markup, which needs its stylesheet and fonts.
+const KATEX_STYLESHEET = "https://cdn.jsdelivr.net/npm/katex@0.16.47/dist/katex.min.css";
+
+/**
+ * A standalone HTML page for the visible branch. `renderMarkdown` turns message text
+ * into HTML the same way the chat does; attachments are embedded as data URLs.
+ */
+export async function toHtml(conversation: Conversation, renderMarkdown: (text: string) => string): Promise<string> {
+  const attachments = await collectAttachments(conversation);
+  const messages = getThread(conversation).map(msg => {
+    const media: string[] = [];
+    const files: string[] = [];
+    for (const ref of msg.attachments ?? []) {
+      const data = attachments[ref.id];
+      const src = data && `data:${data.mimeType};base64,${data.data}`;
+      if (src && ref.kind === "image") media.push(`<img src="${src}" alt="${escapeHtml(ref.name)}">`);
+      else if (src && ref.kind === "audio") media.push(`<audio controls src="${src}"></audio>`);
+      else files.push(src ? `<a href="${src}" download="${escapeHtml(ref.name)}">${escapeHtml(ref.name)}</a>` : escapeHtml(ref.name));
+    }
+    return `<div class="row ${msg.role}"><div class="bubble" title="${roleLabel(msg)}">${media.join("")}`
+      + (files.length > 0 ? `<p class="files">📎 ${files.join(", ")}</p>` : "")
+      + (msg.text ? renderMarkdown(msg.text) : "")
+      + `</div></div>`;
+  });
+  const title = escapeHtml(conversation.title);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${title}</title>
+<link rel="stylesheet" href="${KATEX_STYLESHEET}">
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${title}</h1>
+<p class="meta">Exported ${escapeHtml(new Date().toLocaleString())}</p>
+${messages.join("\n")}
+</main>
+</body>
+</html>
+`;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+const isOptional = <T>(value: unknown, check: (value: unknown) => value is T): value is T | undefined =>
+  value === undefined || check(value);
+const isString = (value: unknown): value is string => typeof value === "string";
+const isBoolean = (value: unknown): value is boolean => typeof value === "boolean";
+
+const ATTACHMENT_KINDS: readonly unknown[] = ["image", "pdf", "audio", "text"];
+const TOOL_CALL_STATUSES: readonly unknown[] = ["awaiting-approval", "running", "done", "denied", "error"];
+// Padded base64, as `blobToBase64` writes it; anything else would make `atob` throw.
+const BASE64_PATTERN = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+/** Maps every element of `value`, which must be an array, or throws `message`. */
+function readArray<T>(value: unknown, read: (item: unknown) => T | null, message: string): T[] {
+  if (!Array.isArray(value)) throw new ImportError(message);
+  return value.map(item => {
+    const result = read(item);
+    if (result === null) throw new ImportError(message);
+    return result;
+  });
+}
+
+const readAttachmentRef = (value: unknown): AttachmentRef | null =>
+  isObject(value) && isString(value.id) && isString(value.name) && isString(value.mimeType) && isNumber(value.size) && ATTACHMENT_KINDS.includes(value.kind)
+    ? { id: value.id, name: value.name, mimeType: value.mimeType, size: value.size, kind: value.kind as AttachmentRef["kind"] }
+    : null;
+
+const readToolCall = (value: unknown): ToolCallRecord | null =>
+  isObject(value) && isString(value.id) && isString(value.name) && isObject(value.args) && TOOL_CALL_STATUSES.includes(value.status)
+    && isNumber(value.round) && isOptional(value.callId, isString) && isOptional(value.result, isObject)
+    ? { id: value.id, callId: value.callId, name: value.name, args: value.args, status: value.status as ToolCallRecord["status"], result: value.result, round: value.round }
+    : null;
+
+const readSafetyRating = (value: unknown): SafetyRating | null =>
+  isObject(value) && isString(value.category) && isString(value.probability) && isOptional(value.blocked, isBoolean)
+    ? { category: value.category, probability: value.probability, blocked: value.blocked }
+    : null;
+
+const readUsage = (value: unknown): MessageUsage | null =>
+  isObject(value) && isString(value.model) && isNumber(value.promptTokens) && isNumber(value.responseTokens) && isNumber(value.thinkingTokens)
+    ? { model: value.model, promptTokens: value.promptTokens, responseTokens: value.responseTokens, thinkingTokens: value.thinkingTokens }
+    : null;
+
+/** Copies only the fields the app knows, so nothing unchecked reaches storage. */
+function readMessage(value: unknown): ChatMessage | null {
+  if (!isObject(value) || !isString(value.id) || !(value.parentId === null || isString(value.parentId))
+    || (value.role !== "user" && value.role !== "model") || !isString(value.text) || !isNumber(value.createdAt)
+    || !isOptional(value.imageUrl, isString) || !isOptional(value.finishReason, isString)) {
+    return null;
+  }
+  const message: ChatMessage = { id: value.id, parentId: value.parentId, createdAt: value.createdAt, role: value.role, text: value.text };
+  if (value.imageUrl !== undefined) message.imageUrl = value.imageUrl;
+  if (value.attachments !== undefined) message.attachments = readArray(value.attachments, readAttachmentRef, "A message has malformed attachments.");
+  if (value.toolCalls !== undefined) message.toolCalls = readArray(value.toolCalls, readToolCall, "A message has malformed tool calls.");
+  if (value.finishReason !== undefined) message.finishReason = value.finishReason;
+  if (value.safetyRatings !== undefined) message.safetyRatings = readArray(value.safetyRatings, readSafetyRating, "A message has malformed safety ratings.");
+  if (value.usage !== undefined) {
+    const usage = readUsage(value.usage);
+    if (!usage) throw new ImportError("A message has malformed usage data.");
+    message.usage = usage;
+  }
+  return message;
+}
+
+const readSummary = (value: unknown): ContextSummary | null =>
+  isObject(value) && isString(value.id) && isString(value.throughMessageId) && isString(value.text) && isNumber(value.createdAt) && isOptional(value.edited, isBoolean)
+    ? { id: value.id, throughMessageId: value.throughMessageId, text: value.text, createdAt: value.createdAt, edited: value.edited }
+    : null;
+
+const SETTINGS_NUMBERS = ["temperature", "topP", "maxOutputTokens", "thinkingBudget", "summarizeAtTokens"] as const;
+
+/** A model the proxy no longer offers falls back to the default rather than failing every request. */
+function readSettings(value: unknown): ChatSettings {
+  if (!isObject(value) || !isString(value.model) || !isOptional(value.personaId, isString)
+    || !isOptional(value.enabledTools, (tools): tools is string[] => Array.isArray(tools) && tools.every(isString))
+    || SETTINGS_NUMBERS.some(key => !isOptional(value[key], isNumber))) {
+    throw new ImportError("The conversation settings are malformed.");
+  }
+  const settings: ChatSettings = {
+    model: AVAILABLE_MODELS.some(model => model.id === value.model) ? value.model : DEFAULT_CHAT_SETTINGS.model,
+    personaId: value.personaId,
+    enabledTools: value.enabledTools,
+  };
+  SETTINGS_NUMBERS.forEach(key => { settings[key] = value[key] as number | undefined; });
+  return settings;
+}
+
+/** Rejects duplicate ids, missing parents and parent cycles, any of which would break the tree walkers. */
+function assertValidTree(messages: ChatMessage[]): void {
+  const byId = new Map<string, ChatMessage>();
+  for (const msg of messages) {
+    if (byId.has(msg.id)) throw new ImportError("Two messages share the same id.");
+    byId.set(msg.id, msg);
+  }
+  const rooted = new Set<string>();
+  for (const msg of messages) {
+    const chain: string[] = [];
+    let current: ChatMessage | undefined = msg;
+    while (current && !rooted.has(current.id)) {
+      if (chain.length > messages.length) throw new ImportError("The messages' parents form a cycle.");
+      chain.push(current.id);
+      if (current.parentId === null) break;
+      const parent = byId.get(current.parentId);
+      if (!parent) throw new ImportError("A message refers to a parent that is not in the file.");
+      current = parent;
+    }
+    chain.forEach(id => rooted.add(id));
+  }
+}
+
+/**
+ * Parses and validates an exported conversation, keeping only the fields the app
+ * understands.
+ * @throws {ImportError} describing the first problem found.
+ */
+export function parseConversationJson(text: string): ConversationExport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportError("The file is not valid JSON.");
+  }
+  if (!isObject(data) || data.format !== EXPORT_FORMAT) {
+    throw new ImportError("The file is not an exported conversation.");
+  }
+  if (typeof data.version !== "number" || data.version > EXPORT_VERSION) {
+    throw new ImportError(`Unsupported export version: ${String(data.version)}.`);
+  }
+  const conversation = data.conversation;
+  if (!isObject(conversation) || typeof conversation.title !== "string" || !Array.isArray(conversation.messages)) {
+    throw new ImportError("The conversation is missing its title or messages.");
+  }
+  const messages = readArray(conversation.messages, readMessage, "One or more messages are malformed.");
+  assertValidTree(messages);
+  const summaries = conversation.summaries === undefined
+    ? undefined
+    : readArray(conversation.summaries, readSummary, "The context summaries are malformed.");
+  const settings = conversation.settings === undefined ? undefined : readSettings(conversation.settings);
+
+  if (!isObject(data.attachments)) {
+    throw new ImportError("The attachments section is missing.");
+  }
+  const attachments: ConversationExport["attachments"] = {};
+  for (const [id, entry] of Object.entries(data.attachments)) {
+    if (!isObject(entry) || !isString(entry.mimeType) || !isString(entry.data) || !BASE64_PATTERN.test(entry.data)) {
+      throw new ImportError("One or more attachments are malformed.");
+    }
+    attachments[id] = { mimeType: entry.mimeType, data: entry.data };
+  }
+
+  const now = Date.now();
+  return {
+    format: EXPORT_FORMAT,
+    version: data.version,
+    exportedAt: isString(data.exportedAt) ? data.exportedAt : new Date(now).toISOString(),
+    conversation: {
+      id: isString(conversation.id) ? conversation.id : "",
+      title: conversation.title,
+      createdAt: isNumber(conversation.createdAt) ? conversation.createdAt : now,
+      updatedAt: isNumber(conversation.updatedAt) ? conversation.updatedAt : now,
+      renamed: conversation.renamed === true || undefined,
+      messages,
+      currentLeafId: isString(conversation.currentLeafId) ? conversation.currentLeafId : null,
+      settings,
+      summaries,
+    },
+    attachments,
+  };
+}
+
+const base64ToBlob = (data: string, mimeType: string): Blob => {
+  const bytes = Uint8Array.from(atob(data), char => char.charCodeAt(0));
+  return new Blob([bytes], { type: mimeType });
+};
+
+/**
+ * Restores an export as a brand-new conversation. Attachments are stored again under
+ * new ids so the copy stays independent of the original.
+ */
+export async function importConversation(uid: string, exported: ConversationExport): Promise<Conversation> {
+  const source = exported.conversation;
+  const fresh = createConversation();
+  const newIds = new Map<string, string>();
+  for (const ref of allAttachmentRefs(source)) {
+    const data = exported.attachments[ref.id];
+    if (data && !newIds.has(ref.id)) {
+      newIds.set(ref.id, await saveAttachment(uid, fresh.id, base64ToBlob(data.data, data.mimeType)));
+    }
+  }
+  const messages = source.messages.map(msg => {
+    if (!msg.attachments) return msg;
+    const attachments = msg.attachments.filter(att => newIds.has(att.id)).map(att => ({ ...att, id: newIds.get(att.id)! }));
+    return { ...msg, attachments: attachments.length > 0 ? attachments : undefined };
+  });
+  const leafExists = messages.some(msg => msg.id === source.currentLeafId);
+  return {
+    ...fresh,
+    title: source.title,
+    renamed: source.renamed,
+    settings: source.settings,
+    summaries: source.summaries?.filter(summary => messages.some(msg => msg.id === summary.throughMessageId)),
+    messages,
+    currentLeafId: leafExists ? source.currentLeafId : (messages.length > 0 ? messages[messages.length - 1].id : null),
+  };
+}
@@ -0,0 +1,127 @@
+import type { ChatMessage, Conversation } from "../types";
+
+// All conversations for a user live under a single localStorage key.
+const storageKey = (uid: string) => `gemini-chat-conversations-${uid}`;
+
+// Pre-conversation builds stored one flat message array per user here.
+const legacyStorageKey = (uid: string) => `gemini-chat-history-${uid}`;
+
+const DEFAULT_TITLE = "New Chat";
+const MAX_TITLE_LENGTH = 40;
+
+export const generateId = (): string =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Derives a title from the first user message, falling back to a generic
+ * label until the user has said something.
+ */
+export function generateTitle(messages: ChatMessage[]): string {
+  const firstPrompt = messages.find(msg => msg.role === "user" && msg.text.trim());
+  if (!firstPrompt) return DEFAULT_TITLE;
+  const text = firstPrompt.text.replace(/\s+/g, " ").trim();
+  return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1)}…` : text;
+}
+
+/** Starts a conversation from a linear chain of messages. */
+export function createConversation(messages: ChatMessage[] = []): Conversation {
+  const now = Date.now();
+  return {
+    id: generateId(),
+    title: generateTitle(messages),
+    createdAt: now,
+    updatedAt: now,
+    messages,
+    currentLeafId: messages.length > 0 ? messages[messages.length - 1].id : null,
+  };
+}
+
+type LegacyMessage = Omit<ChatMessage, "id" | "parentId" | "createdAt">;
+
+/** Turns a flat, id-less message array into a single-branch chain. */
+function linkLegacyMessages(messages: LegacyMessage[], timestamp: number): ChatMessage[] {
+  let parentId: string | null = null;
+  return messages.map((msg, index) => {
+    const linked: ChatMessage = { ...msg, id: generateId(), parentId, createdAt: timestamp + index };
+    parentId = linked.id;
+    return linked;
+  });
+}
+
+/** Messages from before multi-file support referenced a single image by `attachmentId`. */
+function upgradeLegacyAttachment(msg: ChatMessage & { attachmentId?: string }): ChatMessage {
+  if (!msg.attachmentId) return msg;
+  const { attachmentId, ...rest } = msg;
+  return { ...rest, attachments: [{ id: attachmentId, name: "image", mimeType: "image/*", size: 0, kind: "image" }] };
+}
+
+/**
+ * Brings conversations saved by older builds up to date: messages from before the
+ * tree had no ids or leaf pointer, and single images used a different field.
+ */
+function normalizeConversation(conversation: Conversation): Conversation {
+  let normalized = conversation;
+  if (!normalized.messages.every(msg => msg.id)) {
+    const messages = linkLegacyMessages(normalized.messages, normalized.createdAt);
+    normalized = { ...normalized, messages, currentLeafId: messages.length > 0 ? messages[messages.length - 1].id : null };
+  }
+  return { ...normalized, messages: normalized.messages.map(upgradeLegacyAttachment) };
+}
+
+/** Pinned conversations first, then most recently updated. */
+export function sortConversations(conversations: Conversation[]): Conversation[] {
+  return [...conversations].sort((a, b) => {
+    if (!!a.pinned !== !!b.pinned) return a.pinned ? -1 : 1;
+    return b.updatedAt - a.updatedAt;
+  });
+}
+
+const stripTransientUrls = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.map(msg => (msg.imageUrl?.startsWith("blob:") ? { ...msg, imageUrl: "" } : msg));
+
+/** Returns whether the write succeeded, e.g. `false` when storage is full. */
+export function saveConversations(uid: string, conversations: Conversation[]): boolean {
+  try {
+    const storable = conversations.map(conv => ({ ...conv, messages: stripTransientUrls(conv.messages) }));
+    localStorage.setItem(storageKey(uid), JSON.stringify(storable));
+    return true;
+  } catch (e) {
+    console.error("Failed to save conversations:", e);
+    return false;
+  }
+}
+
+export function clearConversations(uid: string): void {
+  try {
+    localStorage.removeItem(storageKey(uid));
+    localStorage.removeItem(legacyStorageKey(uid));
+  } catch (e) {
+    console.error("Failed to clear conversations:", e);
+  }
+}
+
+/**
+ * Moves a single-history record from the legacy key into a conversation.
+ * The legacy key is removed only after the new store has been written.
+ */
+function migrateLegacyHistory(uid: string): Conversation[] {
+  const stored = localStorage.getItem(legacyStorageKey(uid));
+  if (!stored) return [];
+  const legacyMessages: LegacyMessage[] = JSON.parse(stored);
+  const conversations = legacyMessages.length > 0 ? [createConversation(linkLegacyMessages(legacyMessages, Date.now()))] : [];
+  if (saveConversations(uid, conversations)) localStorage.removeItem(legacyStorageKey(uid));
+  return conversations;
+}
+
+export function loadConversations(uid: string): Conversation[] {
+  try {
+    const stored = localStorage.getItem(storageKey(uid));
+    if (stored) return (JSON.parse(stored) as Conversation[]).map(normalizeConversation);
+    return migrateLegacyHistory(uid);
+  } catch (e) {
+    console.error("Failed to load conversations:", e);
+    return [];
+  }
+}
@@ -0,0 +1,186 @@
+import firebase from "firebase/compat/app";
+import type { ChatMessage, Conversation } from "../types";
+import { db } from "./firebase";
+
+// Mirrors conversations to Firestore under users/{uid}/conversations/{id}, with each
+// message in a `messages` subcollection so long chats stay under the document size
+// limit. localStorage remains the source the UI loads from; this only reconciles it
+// with other devices. Conflicts resolve per conversation by `updatedAt`: the newer
+// copy wins whole, which firestore.rules enforces on the server too. Deletions leave a
+// tombstone so they win over stale copies as well.
+
+type ConversationDoc = Omit<Conversation, "messages"> & { deleted?: false };
+type TombstoneDoc = { id: string; updatedAt: number; deleted: true };
+
+export interface ConversationSyncHandlers {
+  /** A newer copy arrived from another device. */
+  onRemoteChange(conversation: Conversation): void;
+  onRemoteDelete(id: string, deletedAt: number): void;
+}
+
+export interface ConversationSync {
+  /** Uploads conversations changed since they were last synced; call with the full list on every change. */
+  push(conversations: Conversation[]): void;
+  /** Records a deletion so other devices drop the conversation as well. */
+  remove(id: string): void;
+  stop(): void;
+}
+
+/** What Firestore is known to hold for a conversation, to skip unchanged writes. */
+interface SyncedState {
+  updatedAt: number;
+  messages: Map<string, ChatMessage>;
+}
+
+const PUSH_DEBOUNCE_MS = 1000;
+// After a failed upload; long enough not to hammer a server that is rejecting writes.
+const PUSH_RETRY_MS = 30_000;
+// Firestore allows 500 writes per batch.
+const MAX_BATCH_WRITES = 450;
+
+type Write = (batch: firebase.firestore.WriteBatch) => void;
+
+async function commitInBatches(writes: Write[]): Promise<void> {
+  for (let start = 0; start < writes.length; start += MAX_BATCH_WRITES) {
+    const batch = db.batch();
+    writes.slice(start, start + MAX_BATCH_WRITES).forEach(write => write(batch));
+    await batch.commit();
+  }
+}
+
+// The welcome message alone isn't worth syncing; every device makes its own.
+const isWorthSyncing = (conversation: Conversation) => conversation.messages.some(msg => msg.role === "user");
+
+/** Deletes every synced conversation and message of a user, e.g. before their account goes. */
+export async function deleteSyncedConversations(uid: string): Promise<void> {
+  const snapshot = await db.collection("users").doc(uid).collection("conversations").get();
+  const writes: Write[] = [];
+  for (const conversation of snapshot.docs) {
+    const messages = await conversation.ref.collection("messages").get();
+    messages.docs.forEach(msg => writes.push(batch => batch.delete(msg.ref)));
+    writes.push(batch => batch.delete(conversation.ref));
+  }
+  await commitInBatches(writes);
+}
+
+export function createConversationSync(uid: string, handlers: ConversationSyncHandlers): ConversationSync {
+  const collection = db.collection("users").doc(uid).collection("conversations");
+  const synced = new Map<string, SyncedState>();
+  // Conversations in an upload that hasn't committed yet (e.g. queued offline), by number of such uploads.
+  const uploading = new Map<string, number>();
+  let latest: Conversation[] = [];
+  let ready = false;
+  let pushTimer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const fetchConversation = async (data: ConversationDoc): Promise<Conversation> => {
+    const snapshot = await collection.doc(data.id).collection("messages").get();
+    const messages = snapshot.docs.map(doc => doc.data() as ChatMessage).sort((a, b) => a.createdAt - b.createdAt);
+    const { deleted, ...fields } = data;
+    return { ...fields, messages };
+  };
+
+  const applyRemote = async (data: ConversationDoc | TombstoneDoc) => {
+    const known = synced.get(data.id);
+    if (known && known.updatedAt >= data.updatedAt) return;
+    if (data.deleted) {
+      synced.set(data.id, { updatedAt: data.updatedAt, messages: new Map() });
+      handlers.onRemoteDelete(data.id, data.updatedAt);
+      return;
+    }
+    const conversation = await fetchConversation(data);
+    synced.set(data.id, { updatedAt: data.updatedAt, messages: new Map(conversation.messages.map(msg => [msg.id, msg])) });
+    handlers.onRemoteChange(conversation);
+  };
+
+  const flush = async () => {
+    pushTimer = null;
+    const writes: Write[] = [];
+    const pushed = new Map<string, SyncedState>();
+    for (const conversation of latest) {
+      const known = synced.get(conversation.id);
+      if (!isWorthSyncing(conversation) || (known && known.updatedAt >= conversation.updatedAt)) continue;
+
+      const { messages, ...fields } = conversation;
+      const ref = collection.doc(conversation.id);
+      writes.push(batch => batch.set(ref, fields));
+      // Messages are replaced rather than mutated, so an unchanged one is the same object.
+      for (const msg of messages) {
+        if (known?.messages.get(msg.id) !== msg) {
+          writes.push(batch => batch.set(ref.collection("messages").doc(msg.id), msg));
+        }
+      }
+      pushed.set(conversation.id, { updatedAt: conversation.updatedAt, messages: new Map(messages.map(msg => [msg.id, msg])) });
+    }
+    pushed.forEach((_state, id) => uploading.set(id, (uploading.get(id) ?? 0) + 1));
+    try {
+      await commitInBatches(writes);
+    } catch (e) {
+      // Offline writes queue inside Firestore and don't reject; this is a real failure, or the
+      // rules refused to overwrite a newer copy, which the listener then brings down.
+      // `synced` is left as it was, so the retry uploads the same changes again.
+      console.error("Failed to sync conversations:", e);
+      schedulePush(PUSH_RETRY_MS);
+      return;
+    } finally {
+      pushed.forEach((_state, id) => {
+        const count = (uploading.get(id) ?? 0) - 1;
+        if (count > 0) uploading.set(id, count);
+        else uploading.delete(id);
+      });
+    }
+    for (const [id, state] of pushed) {
+      // A newer remote copy may have arrived while the batches were committing.
+      if ((synced.get(id)?.updatedAt ?? -Infinity) < state.updatedAt) synced.set(id, state);
+    }
+  };
+
+  const schedulePush = (delayMs = PUSH_DEBOUNCE_MS) => {
+    if (!ready || stopped || pushTimer) return;
+    pushTimer = setTimeout(flush, delayMs);
+  };
+
+  // Metadata changes are included so the listener hears when the cached view is confirmed by the server.
+  const unsubscribe = collection.onSnapshot({ includeMetadataChanges: true }, snapshot => {
+    const changes = snapshot.docChanges()
+      // Our own writes echo back before the server confirms them.
+      .filter(change => change.type !== "removed" && !change.doc.metadata.hasPendingWrites)
+      .map(change => applyRemote(change.doc.data() as ConversationDoc | TombstoneDoc));
+    // Only a snapshot from the server (not the offline cache) tells us what it already has,
+    // so only then is it safe to upload local history without clobbering newer copies.
+    const fromServer = !snapshot.metadata.fromCache;
+    Promise.all(changes).catch(e => console.error("Failed to fetch synced conversations:", e)).finally(() => {
+      if (!fromServer) return;
+      ready = true;
+      schedulePush();
+    });
+  }, e => console.error("Conversation sync stopped:", e));
+
+  return {
+    push(conversations) {
+      latest = conversations;
+      schedulePush();
+    },
+
+    remove(id) {
+      // An upload still in flight will reach the server, so it needs a tombstone as much as a synced copy does.
+      if (!synced.has(id) && !uploading.has(id)) return;
+      const tombstone: TombstoneDoc = { id, updatedAt: Date.now(), deleted: true };
+      synced.set(id, { updatedAt: tombstone.updatedAt, messages: new Map() });
+      const ref = collection.doc(id);
+      ref.collection("messages").get()
+        .then(snapshot => commitInBatches([
+          batch => batch.set(ref, tombstone),
+          ...snapshot.docs.map((doc): Write => batch => batch.delete(doc.ref)),
+        ]))
+        .catch(e => console.error("Failed to sync deletion:", e));
+    },
+
+    stop() {
+      stopped = true;
+      unsubscribe();
+      if (pushTimer) clearTimeout(pushTimer);
+      pushTimer = null;
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import type { AttachmentKind } from "../types";
+import { formatBytes } from "./attachmentStore";
+
+// What the chat accepts as attachments, and how large each kind may be. Images,
+// PDFs and audio go to the model as inline data; text and source files are read
+// and sent as text parts.
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+/** Inline data in a single Gemini request is capped at roughly 20 MB. */
+export const MAX_TOTAL_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+const MAX_BYTES_BY_KIND: Record<AttachmentKind, number> = {
+  image: 10 * 1024 * 1024,
+  pdf: 20 * 1024 * 1024,
+  audio: 20 * 1024 * 1024,
+  text: 1024 * 1024,
+};
+
+const TEXT_EXTENSIONS = new Set([
+  "txt", "md", "markdown", "log", "csv", "tsv", "json", "jsonl", "yaml", "yml", "toml", "ini", "xml", "html", "css", "scss",
+  "js", "jsx", "ts", "tsx", "mjs", "cjs", "py", "rb", "go", "rs", "java", "kt", "swift", "c", "h", "cpp", "hpp", "cs",
+  "php", "sh", "bash", "zsh", "sql", "diff", "patch", "env", "gradle", "dockerfile",
+]);
+
+const TEXT_MIME_TYPES = new Set(["application/json", "application/xml", "application/javascript", "application/x-sh", "application/sql"]);
+
+const extensionOf = (name: string) => {
+  const base = name.toLowerCase().split("/").pop() ?? "";
+  return base.includes(".") ? base.split(".").pop()! : base;
+};
+
+export function classifyFile(file: { name: string; type: string }): AttachmentKind | null {
+  if (file.type.startsWith("image/")) return "image";
+  if (file.type === "application/pdf") return "pdf";
+  if (file.type.startsWith("audio/")) return "audio";
+  if (file.type.startsWith("text/") || TEXT_MIME_TYPES.has(file.type) || TEXT_EXTENSIONS.has(extensionOf(file.name))) {
+    return "text";
+  }
+  return null;
+}
+
+/** The `accept` attribute for the file picker, mirroring `classifyFile`. */
+export const ACCEPTED_FILE_TYPES = [
+  "image/*",
+  "audio/*",
+  "application/pdf",
+  "text/*",
+  ...TEXT_MIME_TYPES,
+  ...[...TEXT_EXTENSIONS].map(ext => `.${ext}`),
+].join(",");
+
+export interface FileValidationResult {
+  accepted: { file: File; kind: AttachmentKind }[];
+  errors: string[];
+}
+
+/** Checks new files against type, per-kind size, count and total-size limits. */
+export function validateFiles(files: File[], pending: { file: File }[]): FileValidationResult {
+  const result: FileValidationResult = { accepted: [], errors: [] };
+  let count = pending.length;
+  let totalBytes = pending.reduce((total, item) => total + item.file.size, 0);
+
+  for (const file of files) {
+    const kind = classifyFile(file);
+    if (!kind) {
+      result.errors.push(`${file.name}: unsupported file type.`);
+    } else if (file.size > MAX_BYTES_BY_KIND[kind]) {
+      result.errors.push(`${file.name}: larger than the ${formatBytes(MAX_BYTES_BY_KIND[kind])} limit for ${kind} files.`);
+    } else if (count >= MAX_ATTACHMENTS_PER_MESSAGE) {
+      result.errors.push(`${file.name}: at most ${MAX_ATTACHMENTS_PER_MESSAGE} files per message.`);
+    } else if (totalBytes + file.size > MAX_TOTAL_ATTACHMENT_BYTES) {
+      result.errors.push(`${file.name}: attachments would exceed ${formatBytes(MAX_TOTAL_ATTACHMENT_BYTES)} in total.`);
+    } else {
+      result.accepted.push({ file, kind });
+      count += 1;
+      totalBytes += file.size;
+    }
+  }
+  return result;
+}
+
+/** Wraps a text file so the model can tell where it starts and ends. */
+export const formatTextAttachment = (name: string, content: string): string =>
+  `File: ${name}\n\`\`\`${extensionOf(name)}\n${content}\n\`\`\``;
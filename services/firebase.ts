@@ -1,10 +1,28 @@
 import firebase from "firebase/compat/app";
 
 import "firebase/compat/auth";
+import "firebase/compat/firestore";
 
 const firebaseConfig = { apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
    authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN, projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID, storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET, messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID, appId: import.meta.env.VITE_FIREBASE_APP_ID, measurementId: import.meta.env.VITE_FIREBASE_MEASUREMENT_ID };
 
 if (!firebase.apps.length) { firebase.initializeApp(firebaseConfig); }
 
-export const auth = firebase.auth();
\ No newline at end of file
+export const auth = firebase.auth();
+
+// Point at the local Auth emulator (e.g. "localhost:9099") during development and tests.
+if (import.meta.env.VITE_FIREBASE_AUTH_EMULATOR_HOST) { auth.useEmulator(`http://${import.meta.env.VITE_FIREBASE_AUTH_EMULATOR_HOST}`); }
+
+export const db = firebase.firestore();
+
+// Conversations carry optional fields; drop them instead of rejecting the write.
+db.settings({ ignoreUndefinedProperties: true });
+
+// Likewise for the Firestore emulator (e.g. "localhost:8080").
+if (import.meta.env.VITE_FIRESTORE_EMULATOR_HOST) {
+  const [host, port] = import.meta.env.VITE_FIRESTORE_EMULATOR_HOST.split(":");
+  db.useEmulator(host, Number(port));
+}
+
+// Keeps a local cache and queues writes while offline; other tabs share it.
+db.enablePersistence({ synchronizeTabs: true }).catch(e => console.error("Firestore offline persistence unavailable:", e));
@@ -1,20 +1,114 @@
-import { GoogleGenAI, Chat, Content } from "@google/genai";
+import type { ChatContent, ChatPart, ChatProvider, ChatProxyLine, ChatProxyRequest, CountTokensRequest } from "./chatProvider";
+import { ChatRequestError, DEFAULT_SYSTEM_INSTRUCTION } from "./chatProvider";
+import { auth } from "./firebase";
 
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
+// The Gemini API key lives on the proxy server (see `server/`); the browser only
+// ever sends the signed-in user's Firebase ID token.
+
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffered += decoder.decode(value, { stream: true });
+      const lines = buffered.split("\n");
+      buffered = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line.trim()) yield line;
+      }
+    }
+    if (buffered.trim()) yield buffered;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function toRequestError(response: Response): Promise<ChatRequestError> {
+  const retryAfter = response.headers.get("Retry-After");
+  let message = response.statusText || `Request failed with status ${response.status}`;
+  try {
+    const body = await response.json();
+    if (body?.error?.message) message = body.error.message;
+  } catch {
+    // Not a JSON error body; keep the status text.
+  }
+  return new ChatRequestError(message, response.status, retryAfter ? Number(retryAfter) : undefined);
 }
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/** POSTs JSON to the proxy with the signed-in user's ID token, throwing on error statuses. */
+async function postToProxy(url: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new ChatRequestError("You need to be signed in to chat.", 401);
+  }
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${await user.getIdToken()}`,
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    throw new ChatRequestError("Can't reach the chat server. Check your connection.", 0);
+  }
+  if (!response.ok) {
+    throw await toRequestError(response);
+  }
+  return response;
+}
 
-// Use gemini-2.5-flash for its balance of speed and capability
-const modelName = "gemini-2.5-flash";
+/** `baseUrl` is where the proxy's `/chat` and `/count-tokens` routes live. */
+export function createGeminiProvider(baseUrl: string): ChatProvider {
+  return {
+    id: "gemini",
+    createChat(initialHistory, settings, persona, tools) {
+      // The proxy is stateless, so the session carries the history itself.
+      const history: ChatContent[] = [...initialHistory];
+      const systemInstruction = persona?.systemInstruction || DEFAULT_SYSTEM_INSTRUCTION;
+
+      return {
+        async *sendMessageStream(parts, options) {
+          const request: ChatProxyRequest = { history, message: parts, settings, systemInstruction, tools };
+          const response = await postToProxy(`${baseUrl}/chat`, request, options?.signal);
+          if (!response.body) {
+            throw new ChatRequestError("The proxy returned an empty response.", 502);
+          }
+
+          let reply = "";
+          const calls: ChatPart[] = [];
+          for await (const line of readLines(response.body)) {
+            let parsed: ChatProxyLine;
+            try {
+              parsed = JSON.parse(line);
+            } catch {
+              throw new ChatRequestError("The chat server sent a malformed response.", 502);
+            }
+            if ("error" in parsed) {
+              throw new ChatRequestError(parsed.error.message, parsed.error.status);
+            }
+            if (parsed.text) reply += parsed.text;
+            parsed.functionCalls?.forEach(functionCall => calls.push({ functionCall }));
+            yield parsed;
+          }
+          const replyParts: ChatPart[] = reply ? [{ text: reply }, ...calls] : calls;
+          history.push({ role: "user", parts }, { role: "model", parts: replyParts });
+        },
+      };
+    },
 
-export function createChat(history?: Content[]): Chat {
-  return ai.chats.create({
-    model: modelName,
-    history,
-    config: {
-      systemInstruction: "You are a helpful and friendly AI assistant. Your goal is to provide accurate and concise answers to user queries, helping them solve their problems.",
+    async countTokens(contents, settings) {
+      const request: CountTokensRequest = { contents, model: settings.model };
+      const response = await postToProxy(`${baseUrl}/count-tokens`, request);
+      const { totalTokens } = await response.json();
+      return totalTokens;
     },
-  });
+  };
 }
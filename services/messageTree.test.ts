@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import type { ChatMessage, Conversation } from "../types";
+import { createConversation } from "./conversationStore";
+import { appendMessage, getSiblings, getThread, selectBranch } from "./messageTree";
+
+const message = (id: string, parentId: string | null, createdAt: number): ChatMessage =>
+  ({ id, parentId, createdAt, role: "user", text: id });
+
+// root → a → a1
+//      ↘ b → b1 → b2
+//          ↘ b1-edit (newest)
+const branched = (): Conversation => ({
+  ...createConversation([
+    message("root", null, 1),
+    message("a", "root", 2),
+    message("a1", "a", 3),
+    message("b", "root", 4),
+    message("b1", "b", 5),
+    message("b2", "b1", 6),
+    message("b1-edit", "b", 7),
+  ]),
+  currentLeafId: "a1",
+});
+
+const ids = (messages: ChatMessage[]) => messages.map(msg => msg.id);
+
+describe("message tree", () => {
+  it("walks the visible branch from the root to the leaf", () => {
+    expect(ids(getThread(branched()))).toEqual(["root", "a", "a1"]);
+  });
+
+  it("lists siblings oldest first", () => {
+    const conversation = branched();
+    expect(ids(getSiblings(conversation, conversation.messages[1]))).toEqual(["a", "b"]);
+  });
+
+  it("follows the newest child when switching branch", () => {
+    const conversation = selectBranch(branched(), "b");
+    expect(conversation.currentLeafId).toBe("b1-edit");
+    expect(ids(getThread(conversation))).toEqual(["root", "b", "b1-edit"]);
+  });
+
+  it("makes an appended message the leaf", () => {
+    const conversation = appendMessage(branched(), message("a2", "a1", 8));
+    expect(ids(getThread(conversation))).toEqual(["root", "a", "a1", "a2"]);
+  });
+
+  it("stops at a parent cycle instead of looping", () => {
+    const conversation: Conversation = {
+      ...createConversation([message("x", "y", 1), message("y", "x", 2)]),
+      currentLeafId: "x",
+    };
+    expect(ids(getThread(conversation))).toEqual(["y", "x"]);
+    expect(selectBranch(conversation, "x").currentLeafId).toBe("y");
+  });
+});
@@ -0,0 +1,75 @@
+import type { ChatMessage, Conversation } from "../types";
+import { generateId } from "./conversationStore";
+
+// Messages form a tree: editing a prompt or regenerating a reply adds a sibling
+// instead of overwriting, and `currentLeafId` picks which branch is on screen.
+
+export function createMessage(fields: Omit<ChatMessage, "id" | "createdAt">): ChatMessage {
+  return { ...fields, id: generateId(), createdAt: Date.now() };
+}
+
+/** The visible branch, from the root down to the conversation's current leaf. */
+export function getThread(conversation: Conversation): ChatMessage[] {
+  const byId = new Map(conversation.messages.map(msg => [msg.id, msg]));
+  const thread: ChatMessage[] = [];
+  const visited = new Set<string>();
+  let current = conversation.currentLeafId ? byId.get(conversation.currentLeafId) : undefined;
+  // The visited check stops a corrupt parent cycle from looping forever.
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    thread.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return thread;
+}
+
+/** All alternatives at this message's position, oldest first (the message itself included). */
+export function getSiblings(conversation: Conversation, message: ChatMessage): ChatMessage[] {
+  return conversation.messages
+    .filter(msg => msg.parentId === message.parentId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Every message's siblings at once, keyed by parent id, oldest first. Lets long threads
+ * render without a `getSiblings` scan per message.
+ */
+export function groupSiblings(conversation: Conversation): Map<string | null, ChatMessage[]> {
+  const groups = new Map<string | null, ChatMessage[]>();
+  for (const msg of conversation.messages) {
+    const group = groups.get(msg.parentId);
+    if (group) group.push(msg);
+    else groups.set(msg.parentId, [msg]);
+  }
+  groups.forEach(group => group.sort((a, b) => a.createdAt - b.createdAt));
+  return groups;
+}
+
+/** Follows the most recent child at each level to the bottom of a branch. */
+function findLatestLeaf(conversation: Conversation, messageId: string): string {
+  let leafId = messageId;
+  const visited = new Set([messageId]);
+  for (;;) {
+    const children = conversation.messages.filter(msg => msg.parentId === leafId && !visited.has(msg.id));
+    if (children.length === 0) return leafId;
+    leafId = children.reduce((latest, msg) => (msg.createdAt > latest.createdAt ? msg : latest)).id;
+    visited.add(leafId);
+  }
+}
+
+/** Adds a message below its parent and makes it the visible leaf. */
+export function appendMessage(conversation: Conversation, message: ChatMessage): Conversation {
+  return { ...conversation, messages: [...conversation.messages, message], currentLeafId: message.id };
+}
+
+export function updateMessage(conversation: Conversation, id: string, patch: Partial<ChatMessage>): Conversation {
+  return {
+    ...conversation,
+    messages: conversation.messages.map(msg => (msg.id === id ? { ...msg, ...patch } : msg)),
+  };
+}
+
+/** Switches the visible branch to the one containing `messageId`. */
+export function selectBranch(conversation: Conversation, messageId: string): Conversation {
+  return { ...conversation, currentLeafId: findLatestLeaf(conversation, messageId) };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { ChatRequestError, DEFAULT_CHAT_SETTINGS } from "./chatProvider";
+import type { ChatPart, ChatStreamChunk, ToolDeclaration } from "./chatProvider";
+import { createMockProvider } from "./mockProvider";
+
+const weatherTool: ToolDeclaration = { name: "get_weather", description: "Current weather", parameters: {} };
+
+async function send(parts: ChatPart[], tools: ToolDeclaration[] = []): Promise<ChatStreamChunk[]> {
+  const chat = createMockProvider({ latencyMs: 0 }).createChat([], DEFAULT_CHAT_SETTINGS, undefined, tools);
+  const chunks: ChatStreamChunk[] = [];
+  for await (const chunk of chat.sendMessageStream(parts)) chunks.push(chunk);
+  return chunks;
+}
+
+const textOf = (chunks: ChatStreamChunk[]) => chunks.map(chunk => chunk.text ?? "").join("");
+
+describe("mock provider", () => {
+  it("echoes the prompt and finishes with usage", async () => {
+    const chunks = await send([{ text: "hello there" }]);
+    expect(textOf(chunks)).toContain("You said: hello there");
+    const last = chunks[chunks.length - 1];
+    expect(last.finishReason).toBe("STOP");
+    expect(last.usage?.responseTokens).toBeGreaterThan(0);
+  });
+
+  it("fails with the requested status on /mock-error", async () => {
+    const error = await send([{ text: "/mock-error 429" }]).catch(e => e);
+    expect(error).toBeInstanceOf(ChatRequestError);
+    expect(error.status).toBe(429);
+  });
+
+  it("fails without a status on a bare /mock-error", async () => {
+    const error = await send([{ text: "/mock-error" }]).catch(e => e);
+    expect(error).toBeInstanceOf(Error);
+    expect(error).not.toBeInstanceOf(ChatRequestError);
+  });
+
+  it("ends early with the reason given to /mock-finish", async () => {
+    const chunks = await send([{ text: "/mock-finish SAFETY" }]);
+    const last = chunks[chunks.length - 1];
+    expect(last.finishReason).toBe("SAFETY");
+    expect(last.safetyRatings?.[0].blocked).toBe(true);
+  });
+
+  it("calls an offered tool on /mock-tool", async () => {
+    const chunks = await send([{ text: '/mock-tool get_weather {"city":"Oslo"}' }], [weatherTool]);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].functionCalls?.[0]).toMatchObject({ name: "get_weather", args: { city: "Oslo" } });
+  });
+
+  it("ignores /mock-tool for a tool that wasn't offered", async () => {
+    const chunks = await send([{ text: "/mock-tool get_weather {}" }]);
+    expect(chunks.some(chunk => chunk.functionCalls)).toBe(false);
+  });
+
+  it("counts failEvery per chat, independent of other chats", async () => {
+    const provider = createMockProvider({ latencyMs: 0, failEvery: 2 });
+    const drain = async (chat: ReturnType<typeof provider.createChat>) => {
+      for await (const _chunk of chat.sendMessageStream([{ text: "hi" }])) { /* consume */ }
+    };
+    const first = provider.createChat([], DEFAULT_CHAT_SETTINGS);
+    const second = provider.createChat([], DEFAULT_CHAT_SETTINGS);
+    await drain(first);
+    await expect(drain(second)).resolves.toBeUndefined();
+    await expect(drain(first)).rejects.toThrow("simulated failure");
+  });
+
+  it("reports tool results back as text", async () => {
+    const chunks = await send([{ functionResponse: { name: "get_weather", response: { temp: 12 } } }]);
+    expect(textOf(chunks)).toContain("`get_weather` returned");
+  });
+});
@@ -0,0 +1,146 @@
+import type { ChatContent, ChatPart, ChatProvider, FunctionCall, UsageData } from "./chatProvider";
+import { ChatRequestError } from "./chatProvider";
+
+export interface MockProviderOptions {
+  /** `echo` repeats the prompt back; `scripted` cycles through `script`. */
+  mode: "echo" | "scripted";
+  script: string[];
+  /** Delay before each streamed chunk. */
+  latencyMs: number;
+  /** Fail every Nth message sent in a chat (0 never fails). */
+  failEvery: number;
+}
+
+export const DEFAULT_MOCK_SCRIPT = [
+  "Hello! I'm the **mock provider**. Replies are generated locally, so no API key is needed.",
+  "Here is some code to check rendering:\n\n```ts\nconst greet = (name: string) => `Hello, ${name}!`;\n```",
+  "| Column | Value |\n| --- | --- |\n| Mode | scripted |\n| Network | none |",
+];
+
+/** Include this in a prompt to make the mock fail on demand; `/mock-error 429` fails with that status. */
+export const MOCK_ERROR_TRIGGER = "/mock-error";
+
+/** `/mock-finish <REASON>` ends the reply early with that finish reason, e.g. `MAX_TOKENS` or `SAFETY`. */
+export const MOCK_FINISH_TRIGGER = "/mock-finish";
+
+/** `/mock-tool <name> <json args>` makes the mock call that tool, if it was offered. */
+export const MOCK_TOOL_TRIGGER = "/mock-tool";
+
+const DEFAULT_OPTIONS: MockProviderOptions = {
+  mode: "echo",
+  script: DEFAULT_MOCK_SCRIPT,
+  latencyMs: 40,
+  failEvery: 0,
+};
+
+// Rough heuristic; real tokenisers average about four characters per token.
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const partToText = (part: ChatPart): string => {
+  if ("text" in part) return part.text;
+  if ("inlineData" in part) return `[${part.inlineData.mimeType} attachment]`;
+  if ("functionCall" in part) return `[call ${part.functionCall.name}(${JSON.stringify(part.functionCall.args)})]`;
+  return `[${part.functionResponse.name} returned ${JSON.stringify(part.functionResponse.response)}]`;
+};
+
+const partsToText = (parts: ChatPart[]): string => parts.map(partToText).join("\n");
+
+/** Parses a tool trigger in `prompt`, if any, into a call to one of `toolNames`. */
+const parseToolTrigger = (prompt: string, toolNames: string[], id: string): FunctionCall | null => {
+  const match = prompt.match(new RegExp(`${MOCK_TOOL_TRIGGER}\\s+(\\S+)\\s*(.*)`, "s"));
+  if (!match || !toolNames.includes(match[1])) return null;
+  try {
+    return { id, name: match[1], args: match[2].trim() ? JSON.parse(match[2]) : {} };
+  } catch {
+    return null;
+  }
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+/** Splits a reply into word-sized chunks, keeping whitespace so they re-join exactly. */
+const chunkReply = (reply: string): string[] => reply.match(/\S+\s*|\s+/g) ?? [reply];
+
+/**
+ * A deterministic, offline provider for development, demos and automated tests.
+ * The same history and prompt always produce the same reply.
+ */
+export function createMockProvider(options: Partial<MockProviderOptions> = {}): ChatProvider {
+  const config = { ...DEFAULT_OPTIONS, ...options };
+
+  return {
+    id: "mock",
+    createChat(initialHistory, settings, _persona, tools = []) {
+      const history: ChatContent[] = [...initialHistory];
+      const toolNames = tools.map(tool => tool.name);
+      // Per chat, so one session's replies never depend on what another sent.
+      let sentCount = 0;
+
+      return {
+        async *sendMessageStream(parts, sendOptions) {
+          const signal = sendOptions?.signal;
+          const prompt = partsToText(parts);
+          sentCount += 1;
+
+          await sleep(config.latencyMs, signal);
+          const errorStatus = prompt.match(new RegExp(`${MOCK_ERROR_TRIGGER}\\s+(\\d{3})`));
+          if (errorStatus) {
+            throw new ChatRequestError(`Mock provider: simulated ${errorStatus[1]} failure`, Number(errorStatus[1]));
+          }
+          if (prompt.includes(MOCK_ERROR_TRIGGER) || (config.failEvery > 0 && sentCount % config.failEvery === 0)) {
+            throw new Error("Mock provider: simulated failure");
+          }
+          const finishReason = prompt.match(new RegExp(`${MOCK_FINISH_TRIGGER}\\s+([A-Z_]+)`))?.[1] ?? "STOP";
+
+          const call = parseToolTrigger(prompt, toolNames, `mock-call-${sentCount}`);
+          if (call) {
+            history.push({ role: "user", parts }, { role: "model", parts: [{ functionCall: call }] });
+            yield { functionCalls: [call] };
+            return;
+          }
+
+          const turn = history.filter(content => content.role === "user").length;
+          const toolResults = parts.flatMap(part => ("functionResponse" in part ? [part.functionResponse] : []));
+          const reply = toolResults.length > 0
+            ? toolResults.map(result => `Tool \`${result.name}\` returned:\n\n\`\`\`json\n${JSON.stringify(result.response, null, 2)}\n\`\`\``).join("\n\n")
+            : config.mode === "scripted"
+              ? config.script[turn % config.script.length]
+              : `You said: ${prompt || "(nothing)"}\n\n_Mock reply from \`${settings.model}\`._`;
+
+          let streamed = "";
+          for (const piece of chunkReply(reply)) {
+            if (signal?.aborted) return;
+            streamed += piece;
+            yield { text: piece };
+            await sleep(config.latencyMs, signal);
+          }
+
+          history.push({ role: "user", parts });
+          const promptTokens = history.reduce((total, content) => total + estimateTokens(partsToText(content.parts)), 0);
+          history.push({ role: "model", parts: [{ text: streamed }] });
+          const usage: UsageData = {
+            promptTokens,
+            responseTokens: estimateTokens(streamed),
+            thinkingTokens: 0,
+            totalTokens: promptTokens + estimateTokens(streamed),
+          };
+          const safetyRatings = finishReason === "SAFETY"
+            ? [{ category: "HARM_CATEGORY_DANGEROUS_CONTENT", probability: "HIGH", blocked: true }]
+            : undefined;
+          yield { usage, finishReason, safetyRatings };
+        },
+      };
+    },
+
+    async countTokens(contents) {
+      return contents.reduce((total, content) => total + estimateTokens(partsToText(content.parts)), 0);
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import type { Persona } from "../types";
+import { DEFAULT_SYSTEM_INSTRUCTION } from "./chatProvider";
+
+const storageKey = (uid: string) => `gemini-chat-personas-${uid}`;
+
+export const DEFAULT_PERSONA_ID = "default";
+
+/** Always available and not editable, so every conversation has something to fall back to. */
+export const DEFAULT_PERSONA: Persona = {
+  id: DEFAULT_PERSONA_ID,
+  name: "Assistant",
+  systemInstruction: DEFAULT_SYSTEM_INSTRUCTION,
+};
+
+export function savePersonas(uid: string, personas: Persona[]): void {
+  try {
+    const custom = personas.filter(persona => persona.id !== DEFAULT_PERSONA_ID);
+    localStorage.setItem(storageKey(uid), JSON.stringify(custom));
+  } catch (e) {
+    console.error("Failed to save personas:", e);
+  }
+}
+
+export function loadPersonas(uid: string): Persona[] {
+  try {
+    const stored = localStorage.getItem(storageKey(uid));
+    return [DEFAULT_PERSONA, ...(stored ? JSON.parse(stored) : [])];
+  } catch (e) {
+    console.error("Failed to load personas:", e);
+    return [DEFAULT_PERSONA];
+  }
+}
+
+export const findPersona = (personas: Persona[], id?: string): Persona =>
+  personas.find(persona => persona.id === id) ?? DEFAULT_PERSONA;
+
+export function clearPersonas(uid: string): void {
+  try {
+    localStorage.removeItem(storageKey(uid));
+  } catch (e) {
+    console.error("Failed to clear personas:", e);
+  }
+}
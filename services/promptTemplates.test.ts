@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import type { PromptTemplate } from "../types";
+import { TEMPLATES_EXPORT_FORMAT, TemplateImportError, fillTemplate, mergeTemplates, normalizeCommand, parseTemplatesJson, templateVariables, templatesToJson } from "./promptTemplates";
+
+const template = (command: string, body = "Body"): PromptTemplate => ({ id: command, command, title: command, body });
+
+describe("template variables", () => {
+  it("lists each variable once, in order", () => {
+    expect(templateVariables("{{ lang }} to {{target}}, keeping {{lang}}")).toEqual(["lang", "target"]);
+  });
+
+  it("fills known variables and leaves the rest", () => {
+    expect(fillTemplate("Translate {{text}} into {{ lang }}", { lang: "French" })).toBe("Translate {{text}} into French");
+  });
+});
+
+describe("normalizeCommand", () => {
+  it("reduces a command to lowercase words joined by dashes", () => {
+    expect(normalizeCommand("  /Code Review! ")).toBe("code-review");
+    expect(normalizeCommand("///")).toBe("");
+  });
+});
+
+describe("parseTemplatesJson", () => {
+  it("round-trips an export with fresh ids", () => {
+    const [imported] = parseTemplatesJson(templatesToJson([template("review", "Review {{code}}")]));
+    expect(imported).toMatchObject({ command: "review", title: "review", body: "Review {{code}}" });
+    expect(imported.id).not.toBe("review");
+  });
+
+  it("normalises commands and defaults missing titles", () => {
+    const text = JSON.stringify({ format: TEMPLATES_EXPORT_FORMAT, version: 1, templates: [{ command: "/My Template", body: "x" }] });
+    expect(parseTemplatesJson(text)[0]).toMatchObject({ command: "my-template", title: "my-template" });
+  });
+
+  it.each([
+    ["not JSON", "{"],
+    ["another format", JSON.stringify({ format: "other", templates: [] })],
+    ["a newer version", JSON.stringify({ format: TEMPLATES_EXPORT_FORMAT, version: 99, templates: [] })],
+    ["a template without a body", JSON.stringify({ format: TEMPLATES_EXPORT_FORMAT, version: 1, templates: [{ command: "x" }] })],
+    ["a command with no usable characters", JSON.stringify({ format: TEMPLATES_EXPORT_FORMAT, version: 1, templates: [{ command: "!!", body: "x" }] })],
+  ])("rejects %s", (_name, text) => {
+    expect(() => parseTemplatesJson(text)).toThrow(TemplateImportError);
+  });
+});
+
+describe("mergeTemplates", () => {
+  it("replaces templates with the same command and keeps the rest", () => {
+    const merged = mergeTemplates([template("a", "old"), template("b")], [template("a", "new"), template("c")]);
+    expect(merged.map(t => `${t.command}:${t.body}`)).toEqual(["b:Body", "a:new", "c:Body"]);
+  });
+});
@@ -0,0 +1,121 @@
+import type { PromptTemplate } from "../types";
+import { generateId } from "./conversationStore";
+
+const storageKey = (uid: string) => `gemini-chat-templates-${uid}`;
+
+export const TEMPLATES_EXPORT_FORMAT = "gemini-chat-templates";
+export const TEMPLATES_EXPORT_VERSION = 1;
+
+/** What a new user's library starts with; they can edit or delete these like any other. */
+export const STARTER_TEMPLATES: PromptTemplate[] = [
+  {
+    id: "starter-review",
+    command: "review",
+    title: "Review a diff",
+    body: "Review this diff. Point out bugs, risky changes and anything unclear, most important first.\n\n```diff\n{{diff}}\n```",
+  },
+  {
+    id: "starter-stacktrace",
+    command: "stacktrace",
+    title: "Explain a stack trace",
+    body: "Explain what went wrong in this stack trace and suggest the most likely fix.\n\n```\n{{trace}}\n```",
+  },
+  {
+    id: "starter-translate",
+    command: "translate",
+    title: "Translate text",
+    body: "Translate the following into {{language}}, keeping the tone and formatting:\n\n{{text}}",
+  },
+];
+
+export class TemplateImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateImportError";
+  }
+}
+
+export function savePromptTemplates(uid: string, templates: PromptTemplate[]): void {
+  try {
+    localStorage.setItem(storageKey(uid), JSON.stringify(templates));
+  } catch (e) {
+    console.error("Failed to save prompt templates:", e);
+  }
+}
+
+/** Users who have never saved a library get the starter templates. */
+export function loadPromptTemplates(uid: string): PromptTemplate[] {
+  try {
+    const stored = localStorage.getItem(storageKey(uid));
+    return stored ? JSON.parse(stored) : STARTER_TEMPLATES;
+  } catch (e) {
+    console.error("Failed to load prompt templates:", e);
+    return STARTER_TEMPLATES;
+  }
+}
+
+export function clearPromptTemplates(uid: string): void {
+  try {
+    localStorage.removeItem(storageKey(uid));
+  } catch (e) {
+    console.error("Failed to clear prompt templates:", e);
+  }
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/** The distinct `{{variables}}` in `body`, in order of first use. */
+export const templateVariables = (body: string): string[] =>
+  [...new Set([...body.matchAll(VARIABLE_PATTERN)].map(match => match[1]))];
+
+/** Replaces each `{{variable}}` with its value; ones without a value are left in place. */
+export const fillTemplate = (body: string, values: Record<string, string>): string =>
+  body.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+
+/** Commands are typed, so they are kept to lowercase letters, digits and dashes. */
+export const normalizeCommand = (command: string): string =>
+  command.trim().replace(/^\/+/, "").toLowerCase().replace(/[^a-z0-9-]+/g, "-").replace(/^-+|-+$/g, "");
+
+export function templatesToJson(templates: PromptTemplate[]): string {
+  return JSON.stringify({
+    format: TEMPLATES_EXPORT_FORMAT,
+    version: TEMPLATES_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    templates: templates.map(({ command, title, body }) => ({ command, title, body })),
+  }, null, 2);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+/**
+ * Reads templates exported by `templatesToJson`, giving each a fresh id.
+ * @throws {TemplateImportError} describing the first problem found.
+ */
+export function parseTemplatesJson(text: string): PromptTemplate[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new TemplateImportError("The file is not valid JSON.");
+  }
+  if (!isObject(data) || data.format !== TEMPLATES_EXPORT_FORMAT || !Array.isArray(data.templates)) {
+    throw new TemplateImportError("The file is not an exported template library.");
+  }
+  if (typeof data.version !== "number" || data.version > TEMPLATES_EXPORT_VERSION) {
+    throw new TemplateImportError(`Unsupported export version: ${String(data.version)}.`);
+  }
+  return (data.templates as unknown[]).map(template => {
+    const command = isObject(template) && typeof template.command === "string" ? normalizeCommand(template.command) : "";
+    if (!isObject(template) || !command || typeof template.body !== "string") {
+      throw new TemplateImportError("One or more templates are missing a command or body.");
+    }
+    const title = typeof template.title === "string" && template.title.trim() ? template.title : command;
+    return { id: generateId(), command, title, body: template.body };
+  });
+}
+
+/** Adds `imported` to `existing`; an imported template replaces one with the same command. */
+export function mergeTemplates(existing: PromptTemplate[], imported: PromptTemplate[]): PromptTemplate[] {
+  const commands = new Set(imported.map(template => template.command));
+  return [...existing.filter(template => !commands.has(template.command)), ...imported];
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import type { ChatMessage, Conversation } from "../types";
+import { createSearchIndex } from "./searchIndex";
+
+const message = (id: string, text: string, fields: Partial<ChatMessage> = {}): ChatMessage =>
+  ({ id, parentId: null, role: "user", text, createdAt: 1, ...fields });
+
+const conversation = (id: string, messages: ChatMessage[], updatedAt = 1): Conversation =>
+  ({ id, title: `Chat ${id}`, createdAt: 1, updatedAt, messages, currentLeafId: null });
+
+const messageIds = (results: { messageId: string }[]) => results.map(result => result.messageId);
+
+describe("search index", () => {
+  it("matches word prefixes and requires every term", () => {
+    const index = createSearchIndex();
+    index.sync([conversation("c1", [
+      message("m1", "Deploying the proxy server"),
+      message("m2", "The server is down", { createdAt: 2 }),
+    ])]);
+    expect(messageIds(index.search("serv"))).toEqual(["m2", "m1"]);
+    expect(messageIds(index.search("proxy serv"))).toEqual(["m1"]);
+    expect(index.search("xyz")).toEqual([]);
+    expect(index.search("  ")).toEqual([]);
+  });
+
+  it("applies role and date filters", () => {
+    const index = createSearchIndex();
+    index.sync([conversation("c1", [
+      message("m1", "kubernetes basics"),
+      message("m2", "kubernetes answer", { role: "model", createdAt: 5 }),
+    ])]);
+    expect(messageIds(index.search("kubernetes", { role: "model" }))).toEqual(["m2"]);
+    expect(messageIds(index.search("kubernetes", { since: 3 }))).toEqual(["m2"]);
+  });
+
+  it("highlights matches in the snippet", () => {
+    const index = createSearchIndex();
+    index.sync([conversation("c1", [message("m1", "Try the Calculator tool")])]);
+    const [result] = index.search("calc");
+    expect(result.conversationTitle).toBe("Chat c1");
+    expect(result.snippet.filter(segment => segment.highlight).map(segment => segment.text)).toEqual(["Calc"]);
+  });
+
+  it("reindexes changed conversations and drops deleted ones", () => {
+    const index = createSearchIndex();
+    index.sync([conversation("c1", [message("m1", "old words")]), conversation("c2", [message("m2", "other words")])]);
+    index.sync([conversation("c1", [message("m1", "new text")], 2)]);
+    expect(index.search("old")).toEqual([]);
+    expect(messageIds(index.search("new"))).toEqual(["m1"]);
+    expect(index.search("other")).toEqual([]);
+  });
+
+  it("skips conversations whose updatedAt hasn't moved", () => {
+    const index = createSearchIndex();
+    index.sync([conversation("c1", [message("m1", "first")])]);
+    index.sync([conversation("c1", [message("m1", "changed without a bump")])]);
+    expect(messageIds(index.search("first"))).toEqual(["m1"]);
+  });
+});
@@ -0,0 +1,181 @@
+import type { ChatMessage, Conversation } from "../types";
+
+// An in-memory inverted index over every message of every conversation. `sync` is
+// incremental: conversations whose `updatedAt` hasn't moved are skipped, and within a
+// changed conversation only messages whose text changed are re-tokenised.
+
+export interface SearchFilters {
+  role?: ChatMessage["role"];
+  /** Only messages created at or after this timestamp. */
+  since?: number;
+}
+
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  conversationId: string;
+  conversationTitle: string;
+  messageId: string;
+  role: ChatMessage["role"];
+  createdAt: number;
+  snippet: SnippetSegment[];
+}
+
+interface IndexedMessage {
+  conversationId: string;
+  messageId: string;
+  role: ChatMessage["role"];
+  createdAt: number;
+  text: string;
+  tokens: Set<string>;
+}
+
+const MAX_RESULTS = 50;
+const SNIPPET_RADIUS = 60;
+
+const tokenize = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+
+const docKey = (conversationId: string, messageId: string) => `${conversationId}:${messageId}`;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** A window of text around the first match, split into highlighted and plain segments. */
+function buildSnippet(text: string, terms: string[]): SnippetSegment[] {
+  const pattern = new RegExp(terms.map(escapeRegExp).join("|"), "gi");
+  const first = text.search(pattern);
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, Math.max(first, 0) + SNIPPET_RADIUS * 2);
+  const window = `${start > 0 ? "…" : ""}${text.slice(start, end).replace(/\s+/g, " ")}${end < text.length ? "…" : ""}`;
+
+  const segments: SnippetSegment[] = [];
+  let cursor = 0;
+  for (const match of window.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > cursor) segments.push({ text: window.slice(cursor, index), highlight: false });
+    segments.push({ text: match[0], highlight: true });
+    cursor = index + match[0].length;
+  }
+  if (cursor < window.length) segments.push({ text: window.slice(cursor), highlight: false });
+  return segments;
+}
+
+export function createSearchIndex() {
+  const documents = new Map<string, IndexedMessage>();
+  const postings = new Map<string, Set<string>>();
+  const conversationVersions = new Map<string, number>();
+  const conversationTitles = new Map<string, string>();
+  const conversationDocs = new Map<string, Set<string>>();
+
+  const removeDocument = (key: string) => {
+    const doc = documents.get(key);
+    if (!doc) return;
+    for (const token of doc.tokens) {
+      const keys = postings.get(token);
+      keys?.delete(key);
+      if (keys?.size === 0) postings.delete(token);
+    }
+    documents.delete(key);
+  };
+
+  const addDocument = (key: string, doc: IndexedMessage) => {
+    documents.set(key, doc);
+    for (const token of doc.tokens) {
+      let keys = postings.get(token);
+      if (!keys) postings.set(token, (keys = new Set()));
+      keys.add(key);
+    }
+  };
+
+  const indexConversation = (conversation: Conversation) => {
+    const previousKeys = conversationDocs.get(conversation.id) ?? new Set<string>();
+    const currentKeys = new Set<string>();
+    for (const msg of conversation.messages) {
+      const key = docKey(conversation.id, msg.id);
+      currentKeys.add(key);
+      if (documents.get(key)?.text === msg.text) continue;
+      removeDocument(key);
+      addDocument(key, {
+        conversationId: conversation.id,
+        messageId: msg.id,
+        role: msg.role,
+        createdAt: msg.createdAt,
+        text: msg.text,
+        tokens: new Set(tokenize(msg.text)),
+      });
+    }
+    for (const key of previousKeys) {
+      if (!currentKeys.has(key)) removeDocument(key);
+    }
+    conversationDocs.set(conversation.id, currentKeys);
+    conversationVersions.set(conversation.id, conversation.updatedAt);
+    conversationTitles.set(conversation.id, conversation.title);
+  };
+
+  /** Keys of documents containing a token that starts with `term`. */
+  const matchTerm = (term: string): Set<string> => {
+    const matches = new Set<string>();
+    for (const [token, keys] of postings) {
+      if (token.startsWith(term)) keys.forEach(key => matches.add(key));
+    }
+    return matches;
+  };
+
+  return {
+    /** Brings the index in line with `conversations`, touching only what changed. */
+    sync(conversations: Conversation[]): void {
+      const liveIds = new Set(conversations.map(conv => conv.id));
+      for (const [id, keys] of conversationDocs) {
+        if (liveIds.has(id)) continue;
+        keys.forEach(removeDocument);
+        conversationDocs.delete(id);
+        conversationVersions.delete(id);
+        conversationTitles.delete(id);
+      }
+      for (const conversation of conversations) {
+        conversationTitles.set(conversation.id, conversation.title);
+        if (conversationVersions.get(conversation.id) !== conversation.updatedAt) {
+          indexConversation(conversation);
+        }
+      }
+    },
+
+    /** Every query word must match the start of a word in the message, so results show up while typing. */
+    search(query: string, filters: SearchFilters = {}): SearchResult[] {
+      const terms = tokenize(query);
+      if (terms.length === 0) return [];
+
+      let candidates = matchTerm(terms[0]);
+      for (const term of terms.slice(1)) {
+        const matches = matchTerm(term);
+        candidates = new Set([...candidates].filter(key => matches.has(key)));
+      }
+
+      return [...candidates]
+        .map(key => documents.get(key)!)
+        .filter(doc => (!filters.role || doc.role === filters.role) && (!filters.since || doc.createdAt >= filters.since))
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(0, MAX_RESULTS)
+        .map(doc => ({
+          conversationId: doc.conversationId,
+          conversationTitle: conversationTitles.get(doc.conversationId) ?? "",
+          messageId: doc.messageId,
+          role: doc.role,
+          createdAt: doc.createdAt,
+          snippet: buildSnippet(doc.text, terms),
+        }));
+    },
+
+    clear(): void {
+      documents.clear();
+      postings.clear();
+      conversationVersions.clear();
+      conversationTitles.clear();
+      conversationDocs.clear();
+    },
+  };
+}
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
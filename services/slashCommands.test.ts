@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import type { PromptTemplate } from "../types";
+import { findModel, isReservedCommand, parseSlashCommand, suggestCommands } from "./slashCommands";
+
+const review: PromptTemplate = { id: "t1", command: "review", title: "Code review", body: "Review {{code}}" };
+const templates = [review];
+
+describe("parseSlashCommand", () => {
+  it("parses built-ins with their arguments", () => {
+    expect(parseSlashCommand("/model  gemini-2.5-pro ", templates)).toEqual({ kind: "builtin", name: "model", args: "gemini-2.5-pro" });
+    expect(parseSlashCommand("/NEW", templates)).toEqual({ kind: "builtin", name: "new", args: "" });
+  });
+
+  it("runs a template only when nothing follows its command", () => {
+    expect(parseSlashCommand("/review", templates)).toEqual({ kind: "template", template: review });
+    expect(parseSlashCommand("/review this code", templates)).toBeNull();
+  });
+
+  it("sends anything else as a message", () => {
+    expect(parseSlashCommand("/mock-error 429", templates)).toBeNull();
+    expect(parseSlashCommand("hello /new", templates)).toBeNull();
+    expect(parseSlashCommand("/new\nsecond line", templates)).toBeNull();
+  });
+
+  it("reserves built-in names", () => {
+    expect(isReservedCommand("usage")).toBe(true);
+    expect(isReservedCommand("review")).toBe(false);
+  });
+});
+
+describe("suggestCommands", () => {
+  it("completes command names and template titles", () => {
+    expect(suggestCommands("/ex", templates).map(suggestion => suggestion.value)).toEqual(["/export "]);
+    expect(suggestCommands("/code", templates).map(suggestion => suggestion.value)).toEqual(["/review"]);
+  });
+
+  it("completes a built-in's arguments", () => {
+    expect(suggestCommands("/export ht", templates)).toEqual([{ value: "/export html", label: "html", description: "Web page" }]);
+  });
+
+  it("stays quiet outside a command", () => {
+    expect(suggestCommands("hello", templates)).toEqual([]);
+    expect(suggestCommands("/new\n", templates)).toEqual([]);
+  });
+});
+
+describe("findModel", () => {
+  it("prefers an exact id, then a partial id or label", () => {
+    expect(findModel("gemini-2.5-flash")).toBe("gemini-2.5-flash");
+    expect(findModel("pro")).toBe("gemini-2.5-pro");
+    expect(findModel("  ")).toBeUndefined();
+    expect(findModel("gpt")).toBeUndefined();
+  });
+});
@@ -0,0 +1,94 @@
+import type { PromptTemplate } from "../types";
+import { AVAILABLE_MODELS } from "./chatProvider";
+
+// Lines in the chat input that start with `/` and name a built-in command or a prompt
+// template run that instead of being sent. Anything else, e.g. `/mock-error`, is sent as typed.
+
+export type BuiltInCommandName = "new" | "clear" | "model" | "export" | "templates" | "usage";
+
+export type SlashCommand =
+  | { kind: "builtin"; name: BuiltInCommandName; args: string }
+  | { kind: "template"; template: PromptTemplate };
+
+export interface CommandSuggestion {
+  /** What the input becomes when picked. A trailing space means an argument is still to come. */
+  value: string;
+  label: string;
+  description: string;
+}
+
+interface BuiltInCommand {
+  name: BuiltInCommandName;
+  description: string;
+  /** Accepted arguments; commands that take one can also run without it. */
+  options?: { value: string; label: string }[];
+}
+
+export const BUILT_IN_COMMANDS: BuiltInCommand[] = [
+  { name: "new", description: "Start a new chat" },
+  { name: "clear", description: "Delete this conversation's messages and start over" },
+  { name: "model", description: "Switch the model for this chat", options: AVAILABLE_MODELS.map(model => ({ value: model.id, label: model.label })) },
+  {
+    name: "export",
+    description: "Download this conversation",
+    options: [
+      { value: "md", label: "Markdown" },
+      { value: "json", label: "JSON" },
+      { value: "html", label: "Web page" },
+    ],
+  },
+  { name: "templates", description: "Manage your prompt templates" },
+  { name: "usage", description: "Show token usage, estimated cost and your budget" },
+];
+
+/** Template commands can't shadow built-ins. */
+export const isReservedCommand = (command: string): boolean => BUILT_IN_COMMANDS.some(builtin => builtin.name === command);
+
+const findBuiltIn = (name: string) => BUILT_IN_COMMANDS.find(builtin => builtin.name === name);
+
+/** Parses `input` as a known command, or returns `null` if it should be sent as a message. */
+export function parseSlashCommand(input: string, templates: PromptTemplate[]): SlashCommand | null {
+  const match = input.trim().match(/^\/([\w-]+)(?:[ \t]+(.*))?$/);
+  if (!match) return null;
+  const name = match[1].toLowerCase();
+  const builtin = findBuiltIn(name);
+  if (builtin) return { kind: "builtin", name: builtin.name, args: match[2]?.trim() ?? "" };
+  const template = templates.find(t => t.command === name);
+  return template && !match[2] ? { kind: "template", template } : null;
+}
+
+/** Completions for a command being typed; empty once the input isn't one. */
+export function suggestCommands(input: string, templates: PromptTemplate[]): CommandSuggestion[] {
+  if (!input.startsWith("/") || input.includes("\n")) return [];
+  const spaceIndex = input.indexOf(" ");
+
+  if (spaceIndex === -1) {
+    const prefix = input.slice(1).toLowerCase();
+    const builtins = BUILT_IN_COMMANDS
+      .filter(builtin => builtin.name.startsWith(prefix))
+      .map(builtin => ({
+        value: builtin.options ? `/${builtin.name} ` : `/${builtin.name}`,
+        label: `/${builtin.name}${builtin.options ? ` <${builtin.options.map(option => option.value).join(" | ")}>` : ""}`,
+        description: builtin.description,
+      }));
+    const matchingTemplates = templates
+      .filter(template => template.command.startsWith(prefix) || (prefix && template.title.toLowerCase().includes(prefix)))
+      .map(template => ({ value: `/${template.command}`, label: `/${template.command}`, description: template.title }));
+    return [...builtins, ...matchingTemplates];
+  }
+
+  const builtin = findBuiltIn(input.slice(1, spaceIndex).toLowerCase());
+  const arg = input.slice(spaceIndex + 1).trim().toLowerCase();
+  return (builtin?.options ?? [])
+    .filter(option => option.value.includes(arg) || option.label.toLowerCase().includes(arg))
+    .map(option => ({ value: `/${builtin!.name} ${option.value}`, label: option.value, description: option.label }));
+}
+
+/** The model named by a `/model` argument: an exact id, or the first id or label containing it. */
+export function findModel(arg: string): string | undefined {
+  const query = arg.trim().toLowerCase();
+  if (!query) return undefined;
+  const model = AVAILABLE_MODELS.find(m => m.id === query)
+    ?? AVAILABLE_MODELS.find(m => m.id.includes(query) || m.label.toLowerCase().includes(query));
+  return model?.id;
+}
@@ -0,0 +1,260 @@
+// Browser speech in both directions: continuous recognition for voice mode and
+// speechSynthesis for reading replies aloud. Both APIs are optional; callers check
+// `isRecognitionSupported` / `isSynthesisSupported` first.
+
+const storageKey = (uid: string) => `gemini-chat-voice-${uid}`;
+
+export interface VoiceSettings {
+  /** `SpeechSynthesisVoice.voiceURI`; unset uses the browser's default voice. */
+  voiceURI?: string;
+  rate: number;
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = { rate: 1 };
+
+/** Silence after the last recognised words that counts as the end of an utterance. */
+const END_OF_SPEECH_MS = 1200;
+
+// Some engines stop mid-sentence on long utterances, so text is spoken in pieces.
+const MAX_UTTERANCE_CHARS = 220;
+
+// The Web Speech recognition API isn't in TypeScript's DOM library; these cover what's used here.
+interface SpeechRecognitionEvent {
+  resultIndex: number;
+  results: ArrayLike<{ isFinal: boolean; 0: { transcript: string } }>;
+}
+
+interface SpeechRecognitionErrorEvent {
+  error: string;
+}
+
+export interface SpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
+  onstart: (() => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionWindow = Window & {
+  SpeechRecognition?: new () => SpeechRecognition;
+  webkitSpeechRecognition?: new () => SpeechRecognition;
+};
+
+const SpeechRecognitionImpl = typeof window !== "undefined"
+  ? (window as SpeechRecognitionWindow).SpeechRecognition ?? (window as SpeechRecognitionWindow).webkitSpeechRecognition
+  : undefined;
+
+export const isRecognitionSupported = !!SpeechRecognitionImpl;
+
+/** A bare recognition session for callers that configure it themselves, e.g. one-shot dictation. */
+export const createSpeechRecognition = (): SpeechRecognition | null =>
+  SpeechRecognitionImpl ? new SpeechRecognitionImpl() : null;
+export const isSynthesisSupported = typeof window !== "undefined" && "speechSynthesis" in window;
+
+export function saveVoiceSettings(uid: string, settings: VoiceSettings): void {
+  try {
+    localStorage.setItem(storageKey(uid), JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save voice settings:", e);
+  }
+}
+
+export function loadVoiceSettings(uid: string): VoiceSettings {
+  try {
+    const stored = localStorage.getItem(storageKey(uid));
+    return stored ? { ...DEFAULT_VOICE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_VOICE_SETTINGS;
+  } catch (e) {
+    console.error("Failed to load voice settings:", e);
+    return DEFAULT_VOICE_SETTINGS;
+  }
+}
+
+export function clearVoiceSettings(uid: string): void {
+  try {
+    localStorage.removeItem(storageKey(uid));
+  } catch (e) {
+    console.error("Failed to clear voice settings:", e);
+  }
+}
+
+/** Hands `fromUid`'s voice settings to `toUid`, unless `toUid` already has its own. */
+export function moveVoiceSettings(fromUid: string, toUid: string): void {
+  try {
+    const stored = localStorage.getItem(storageKey(fromUid));
+    if (stored && !localStorage.getItem(storageKey(toUid))) localStorage.setItem(storageKey(toUid), stored);
+    localStorage.removeItem(storageKey(fromUid));
+  } catch (e) {
+    console.error("Failed to move voice settings:", e);
+  }
+}
+
+/** Voices load asynchronously in some browsers; resolves once they are known. */
+export function listVoices(): Promise<SpeechSynthesisVoice[]> {
+  if (!isSynthesisSupported) return Promise.resolve([]);
+  const voices = speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+  return new Promise(resolve => {
+    speechSynthesis.addEventListener("voiceschanged", () => resolve(speechSynthesis.getVoices()), { once: true });
+  });
+}
+
+/**
+ * Reduces Markdown to what is worth hearing: code blocks, images, tables' rules, math
+ * and formatting marks are dropped; link text is kept without the URL.
+ */
+export function markdownToSpeech(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?(```|$)/g, " ")
+    .replace(/\$\$[\s\S]*?\$\$/g, " ")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/^\s*\|?\s*:?-{3,}.*$/gm, " ")
+    .replace(/\|/g, ", ")
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, "")
+    .replace(/(\*\*|__|\*|_|~~|`)/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Breaks text at sentence ends (or spaces) into pieces of at most `MAX_UTTERANCE_CHARS`. */
+function splitForSpeech(text: string): string[] {
+  const sentences = text.match(/[^.!?]+[.!?]*\s*/g) ?? [text];
+  const pieces: string[] = [];
+  let current = "";
+  for (const sentence of sentences) {
+    if ((current + sentence).length > MAX_UTTERANCE_CHARS && current) {
+      pieces.push(current.trim());
+      current = "";
+    }
+    current += sentence;
+    while (current.length > MAX_UTTERANCE_CHARS) {
+      const cut = current.lastIndexOf(" ", MAX_UTTERANCE_CHARS) > 0 ? current.lastIndexOf(" ", MAX_UTTERANCE_CHARS) : MAX_UTTERANCE_CHARS;
+      pieces.push(current.slice(0, cut).trim());
+      current = current.slice(cut);
+    }
+  }
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+}
+
+/**
+ * Speaks Markdown text with the given voice settings, replacing anything already
+ * playing. Resolves when playback finishes or is cancelled.
+ */
+export function speak(markdown: string, settings: VoiceSettings): Promise<void> {
+  if (!isSynthesisSupported) return Promise.resolve();
+  speechSynthesis.cancel();
+  const pieces = splitForSpeech(markdownToSpeech(markdown));
+  if (pieces.length === 0) return Promise.resolve();
+  const voice = speechSynthesis.getVoices().find(v => v.voiceURI === settings.voiceURI);
+
+  return new Promise(resolve => {
+    pieces.forEach((piece, index) => {
+      const utterance = new SpeechSynthesisUtterance(piece);
+      utterance.rate = settings.rate;
+      if (voice) utterance.voice = voice;
+      if (index === pieces.length - 1) utterance.onend = () => resolve();
+      // Cancelling fires "error" (interrupted/canceled) on the pending utterances.
+      utterance.onerror = () => resolve();
+      speechSynthesis.speak(utterance);
+    });
+  });
+}
+
+export function stopSpeaking(): void {
+  if (isSynthesisSupported) speechSynthesis.cancel();
+}
+
+export interface VoiceRecognizerHandlers {
+  /** The words heard so far in the current utterance, including unconfirmed ones. */
+  onTranscript(text: string): void;
+  /** The user started talking; used to interrupt playback. */
+  onSpeechStart(): void;
+  /** A pause long enough to treat the utterance as finished. */
+  onUtterance(text: string): void;
+  onError(message: string): void;
+}
+
+export interface VoiceRecognizer {
+  start(): void;
+  stop(): void;
+}
+
+/**
+ * Continuous recognition with interim results. The browser ends sessions on its own
+ * after a while, so it restarts until `stop` is called.
+ */
+export function createVoiceRecognizer(lang: string, handlers: VoiceRecognizerHandlers): VoiceRecognizer {
+  let recognition: SpeechRecognition | null = null;
+  let active = false;
+  let finalText = "";
+  // Words not yet confirmed; some engines never confirm the last ones before the pause.
+  let interimText = "";
+  let silenceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const finishUtterance = () => {
+    silenceTimer = null;
+    const text = (finalText + interimText).trim();
+    finalText = "";
+    interimText = "";
+    handlers.onTranscript("");
+    if (text) handlers.onUtterance(text);
+  };
+
+  const startSession = () => {
+    if (!SpeechRecognitionImpl) return;
+    const session = new SpeechRecognitionImpl();
+    recognition = session;
+    session.lang = lang;
+    session.continuous = true;
+    session.interimResults = true;
+
+    session.onresult = event => {
+      interimText = "";
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const transcript = event.results[i][0].transcript;
+        if (event.results[i].isFinal) finalText += transcript;
+        else interimText += transcript;
+      }
+      if (!(finalText + interimText).trim()) return;
+      if (!silenceTimer) handlers.onSpeechStart();
+      else clearTimeout(silenceTimer);
+      handlers.onTranscript((finalText + interimText).trim());
+      silenceTimer = setTimeout(finishUtterance, END_OF_SPEECH_MS);
+    };
+    session.onerror = event => {
+      // "no-speech" and "aborted" are routine in continuous mode.
+      if (event.error === "no-speech" || event.error === "aborted") return;
+      active = false;
+      handlers.onError(event.error === "not-allowed" ? "Microphone access was denied." : `Speech recognition failed (${event.error}).`);
+    };
+    session.onend = () => {
+      if (active) startSession();
+    };
+    session.start();
+  };
+
+  return {
+    start() {
+      if (active || !isRecognitionSupported) return;
+      active = true;
+      startSession();
+    },
+    stop() {
+      active = false;
+      if (silenceTimer) clearTimeout(silenceTimer);
+      silenceTimer = null;
+      finalText = "";
+      interimText = "";
+      recognition?.abort();
+      recognition = null;
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { ToolError, evaluateExpression, getEnabledTools, runTool } from "./tools";
+import type { ToolContext } from "./tools";
+
+const context: ToolContext = { searchConversations: () => [] };
+
+describe("evaluateExpression", () => {
+  it.each([
+    ["1 + 2 * 3", 7],
+    ["(1 + 2) * 3", 9],
+    ["10 / 4", 2.5],
+    ["10 % 4", 2],
+    ["2 ^ 3 ^ 2", 512],
+    ["2 ** 10", 1024],
+    ["-2^2", -4],
+    ["(-2)^2", 4],
+    ["--3", 3],
+    ["+5 - -5", 10],
+    [".5 + 1.25", 1.75],
+    ["1e3 + 1", 1001],
+    ["sqrt(16) + abs(-2)", 6],
+    ["log(1000)", 3],
+    ["ln(e)", 1],
+    ["round(PI * 100)", 314],
+  ])("evaluates %s", (expression, expected) => {
+    expect(evaluateExpression(expression)).toBeCloseTo(expected, 10);
+  });
+
+  it.each([
+    ["1 +", "Unexpected end of expression"],
+    ["(1 + 2", 'Expected ")"'],
+    ["1 2", 'Unexpected "2"'],
+    ["foo(1)", 'Unknown token "foo"'],
+    ["sqrt 4", 'Expected "("'],
+    ["1 / 0", "not a finite number"],
+    ["process.exit()", "Unknown token"],
+  ])("rejects %s", (expression, message) => {
+    expect(() => evaluateExpression(expression)).toThrow(ToolError);
+    expect(() => evaluateExpression(expression)).toThrow(message);
+  });
+});
+
+describe("runTool", () => {
+  it("returns the calculator's result", async () => {
+    expect(await runTool("calculator", { expression: "6 * 7" }, context)).toEqual({ ok: true, result: { expression: "6 * 7", result: 42 } });
+  });
+
+  it("turns failures into an error result", async () => {
+    expect(await runTool("calculator", { expression: "1 +" }, context)).toEqual({ ok: false, result: { error: "Unexpected end of expression" } });
+    expect(await runTool("missing", {}, context)).toEqual({ ok: false, result: { error: 'Unknown tool "missing"' } });
+  });
+
+  it("passes search queries to the context", async () => {
+    const searched: string[] = [];
+    await runTool("search_conversations", { query: "budget" }, { searchConversations: query => { searched.push(query); return []; } });
+    expect(searched).toEqual(["budget"]);
+  });
+});
+
+describe("getEnabledTools", () => {
+  it("keeps only known tools the settings enable", () => {
+    const tools = getEnabledTools({ model: "gemini-2.5-flash", enabledTools: ["calculator", "unknown"] });
+    expect(tools.map(tool => tool.declaration.name)).toEqual(["calculator"]);
+  });
+});
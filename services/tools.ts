@@ -0,0 +1,204 @@
+import type { ChatSettings } from "../types";
+import type { ToolDeclaration } from "./chatProvider";
+import type { SearchResult } from "./searchIndex";
+
+// Local tools the model can call. The browser runs them: the model asks for a call,
+// `execute` produces a result, and the result goes back as a `functionResponse`.
+
+/** What tools can reach in the app, supplied by the chat component. */
+export interface ToolContext {
+  searchConversations(query: string): SearchResult[];
+}
+
+export interface ToolDefinition {
+  declaration: ToolDeclaration;
+  label: string;
+  /** Tools that expose the user's data ask before every call. */
+  requiresApproval: boolean;
+  execute(args: Record<string, unknown>, context: ToolContext): Promise<Record<string, unknown>>;
+}
+
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ToolError";
+  }
+}
+
+/** A bounded number of call/response rounds per reply, so a looping model can't spin forever. */
+export const MAX_TOOL_ROUNDS = 5;
+
+// --- Calculator ---
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt, abs: Math.abs, round: Math.round, floor: Math.floor, ceil: Math.ceil,
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  ln: Math.log, log: Math.log10, exp: Math.exp,
+};
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+/**
+ * Evaluates arithmetic with + - * / % ^, parentheses, the functions above and the
+ * constants pi and e. A small recursive-descent parser, so nothing is ever `eval`ed.
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+\.?\d*(?:e[+-]?\d+)?|\.\d+|[a-z]+|\*\*|[-+*/%^()]|\S/gi) ?? [];
+  let position = 0;
+  const peek = () => tokens[position];
+  const take = () => tokens[position++];
+  const expect = (token: string) => {
+    if (take() !== token) throw new ToolError(`Expected "${token}" in expression`);
+  };
+
+  const parsePrimary = (): number => {
+    const token = take();
+    if (token === undefined) throw new ToolError("Unexpected end of expression");
+    if (token === "(") {
+      const value = parseSum();
+      expect(")");
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return Number(token);
+    const name = token.toLowerCase();
+    if (name in CONSTANTS) return CONSTANTS[name];
+    if (name in FUNCTIONS) {
+      expect("(");
+      const value = parseSum();
+      expect(")");
+      return FUNCTIONS[name](value);
+    }
+    throw new ToolError(`Unknown token "${token}" in expression`);
+  };
+  const parseUnary = (): number => {
+    if (peek() === "-") {
+      take();
+      return -parseUnary();
+    }
+    if (peek() === "+") take();
+    return parsePower();
+  };
+  // Right-associative and binds tighter than unary minus on its left: -2^2 is -4.
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === "^" || peek() === "**") {
+      take();
+      return base ** parseUnary();
+    }
+    return base;
+  };
+  const parseProduct = (): number => {
+    let value = parseUnary();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const operator = take();
+      const right = parseUnary();
+      value = operator === "*" ? value * right : operator === "/" ? value / right : value % right;
+    }
+    return value;
+  };
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek() === "+" || peek() === "-") {
+      value = take() === "+" ? value + parseProduct() : value - parseProduct();
+    }
+    return value;
+  };
+
+  const result = parseSum();
+  if (position < tokens.length) throw new ToolError(`Unexpected "${peek()}" in expression`);
+  if (!Number.isFinite(result)) throw new ToolError("The result is not a finite number");
+  return result;
+}
+
+const calculator: ToolDefinition = {
+  label: "Calculator",
+  requiresApproval: false,
+  declaration: {
+    name: "calculator",
+    description: "Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, sqrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, ln, log (base 10), exp, pi and e. Use it for any non-trivial arithmetic.",
+    parameters: {
+      type: "object",
+      properties: { expression: { type: "string", description: "For example \"(3 + 4) * sqrt(2)\"" } },
+      required: ["expression"],
+    },
+  },
+  async execute(args) {
+    if (typeof args.expression !== "string") throw new ToolError("expression must be a string");
+    return { expression: args.expression, result: evaluateExpression(args.expression) };
+  },
+};
+
+// --- Date and time ---
+
+const dateTime: ToolDefinition = {
+  label: "Date & time",
+  requiresApproval: false,
+  declaration: {
+    name: "get_current_datetime",
+    description: "Returns the current date and time, in the user's time zone unless another IANA time zone is given.",
+    parameters: {
+      type: "object",
+      properties: { timeZone: { type: "string", description: "IANA time zone such as \"Europe/Paris\"" } },
+    },
+  },
+  async execute(args) {
+    const timeZone = typeof args.timeZone === "string" && args.timeZone ? args.timeZone : Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const now = new Date();
+    let local: string;
+    try {
+      local = now.toLocaleString("en-US", { timeZone, dateStyle: "full", timeStyle: "long" });
+    } catch {
+      throw new ToolError(`Unknown time zone "${timeZone}"`);
+    }
+    return { timeZone, local, iso: now.toISOString(), unixMs: now.getTime() };
+  },
+};
+
+// --- Conversation search ---
+
+const MAX_SEARCH_RESULTS = 10;
+
+const searchConversations: ToolDefinition = {
+  label: "Search my conversations",
+  requiresApproval: true,
+  declaration: {
+    name: "search_conversations",
+    description: "Searches the user's past conversations in this app for messages containing all the given words, and returns matching snippets.",
+    parameters: {
+      type: "object",
+      properties: { query: { type: "string", description: "Words to look for" } },
+      required: ["query"],
+    },
+  },
+  async execute(args, context) {
+    if (typeof args.query !== "string" || !args.query.trim()) throw new ToolError("query must be a non-empty string");
+    const results = context.searchConversations(args.query).slice(0, MAX_SEARCH_RESULTS);
+    return {
+      results: results.map(result => ({
+        conversation: result.conversationTitle,
+        role: result.role,
+        date: new Date(result.createdAt).toISOString(),
+        snippet: result.snippet.map(segment => segment.text).join(""),
+      })),
+    };
+  },
+};
+
+export const BUILT_IN_TOOLS: ToolDefinition[] = [calculator, dateTime, searchConversations];
+
+export const findTool = (name: string): ToolDefinition | undefined =>
+  BUILT_IN_TOOLS.find(tool => tool.declaration.name === name);
+
+export const getEnabledTools = (settings: ChatSettings): ToolDefinition[] =>
+  BUILT_IN_TOOLS.filter(tool => settings.enabledTools?.includes(tool.declaration.name));
+
+/** Runs a call, turning any failure into an `{ error }` result the model can read. */
+export async function runTool(name: string, args: Record<string, unknown>, context: ToolContext): Promise<{ ok: boolean; result: Record<string, unknown> }> {
+  const tool = findTool(name);
+  if (!tool) return { ok: false, result: { error: `Unknown tool "${name}"` } };
+  try {
+    return { ok: true, result: await tool.execute(args, context) };
+  } catch (error) {
+    if (!(error instanceof ToolError)) console.error(`Tool ${name} failed:`, error);
+    return { ok: false, result: { error: error instanceof Error ? error.message : String(error) } };
+  }
+}
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Conversation } from "../types";
+import { DELETED_CONVERSATIONS_KEY, estimateCost, formatCost, loadUsageLog, monthToDateCost, moveUsageLog, recordUsage, summarizeUsage } from "./usageStats";
+import type { PriceTable, UsageLogEntry } from "./usageStats";
+
+const prices: PriceTable = { "model-a": { input: 1, output: 10 } };
+
+const entry = (id: string, fields: Partial<UsageLogEntry> = {}): UsageLogEntry => ({
+  id,
+  kind: "reply",
+  conversationId: "c1",
+  createdAt: new Date(2025, 2, 10).getTime(),
+  model: "model-a",
+  promptTokens: 1_000_000,
+  responseTokens: 100_000,
+  thinkingTokens: 100_000,
+  ...fields,
+});
+
+const conversation = (id: string, fields: Partial<Conversation> = {}): Conversation =>
+  ({ id, title: `Chat ${id}`, createdAt: 1, updatedAt: 1, messages: [], currentLeafId: null, ...fields });
+
+describe("estimateCost", () => {
+  it("bills thinking as output and unknown models as free", () => {
+    expect(estimateCost(entry("r1"), prices)).toBeCloseTo(3);
+    expect(estimateCost(entry("r1", { model: "unpriced" }), prices)).toBe(0);
+  });
+
+  it("formats tiny amounts as under a cent", () => {
+    expect(formatCost(0.001)).toBe("< $0.01");
+    expect(formatCost(0)).toBe("$0.00");
+    expect(formatCost(12.345)).toBe("$12.35");
+  });
+});
+
+describe("summarizeUsage", () => {
+  it("totals by day, conversation and model, counting summaries too", () => {
+    const log = [
+      entry("r1"),
+      entry("s1", { kind: "summary", createdAt: new Date(2025, 2, 11).getTime() }),
+      entry("r2", { conversationId: "gone" }),
+    ];
+    const summary = summarizeUsage(log, [conversation("c1")], prices);
+    expect(summary.total).toMatchObject({ requests: 3, promptTokens: 3_000_000 });
+    expect(summary.total.cost).toBeCloseTo(9);
+    expect(summary.byDay.map(day => day.key)).toEqual(["2025-03-11", "2025-03-10"]);
+    expect(summary.byConversation.map(row => [row.key, row.label, row.requests])).toEqual([
+      ["c1", "Chat c1", 2],
+      [DELETED_CONVERSATIONS_KEY, "Deleted conversations", 1],
+    ]);
+  });
+
+  it("only counts entries since the given time", () => {
+    const since = new Date(2025, 2, 11).getTime();
+    expect(summarizeUsage([entry("r1")], [], prices, since).total.requests).toBe(0);
+  });
+
+  it("sums this calendar month's spend", () => {
+    const now = new Date(2025, 2, 20).getTime();
+    const log = [entry("r1"), entry("r2", { createdAt: new Date(2025, 1, 28).getTime() })];
+    expect(monthToDateCost(log, prices, now)).toBeCloseTo(3);
+  });
+});
+
+describe("usage log", () => {
+  beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => void store.set(key, value),
+      removeItem: (key: string) => void store.delete(key),
+    });
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  const withUsage = conversation("c1", {
+    messages: [{ id: "m1", parentId: null, role: "model", text: "hi", createdAt: 5, usage: { model: "model-a", promptTokens: 10, responseTokens: 2, thinkingTokens: 0 } }],
+  });
+
+  it("builds the log from stored replies the first time only", () => {
+    expect(loadUsageLog("u1", [withUsage])).toMatchObject([{ id: "m1", kind: "reply", conversationId: "c1", promptTokens: 10 }]);
+    expect(loadUsageLog("u1", [])).toHaveLength(1);
+  });
+
+  it("keeps recorded usage after the conversation is gone", () => {
+    loadUsageLog("u1", []);
+    recordUsage("u1", entry("r1"));
+    expect(loadUsageLog("u1", []).map(logged => logged.id)).toEqual(["r1"]);
+  });
+
+  it("moves a guest's log without duplicating entries", () => {
+    recordUsage("guest", entry("m1"));
+    recordUsage("guest", entry("r2"));
+    moveUsageLog("guest", "u1", [withUsage]);
+    expect(loadUsageLog("u1", []).map(logged => logged.id)).toEqual(["m1", "r2"]);
+    expect(loadUsageLog("guest", [])).toEqual([]);
+  });
+});
@@ -0,0 +1,253 @@
+import type { Conversation, MessageUsage } from "../types";
+import { AVAILABLE_MODELS } from "./chatProvider";
+
+// Token usage rolled up for the usage dashboard and the monthly budget. Every reply and
+// summary appends to a per-user log, so deleting or clearing a conversation doesn't
+// lower what was spent. Costs are estimates from a price table the user can edit;
+// nothing here talks to billing.
+
+const storageKey = (uid: string) => `gemini-chat-usage-${uid}`;
+const logStorageKey = (uid: string) => `gemini-chat-usage-log-${uid}`;
+
+export interface UsageLogEntry extends MessageUsage {
+  /** The reply's message id, or the summary's id. */
+  id: string;
+  kind: "reply" | "summary";
+  conversationId: string;
+  createdAt: number;
+}
+
+/** Key of the dashboard row that gathers conversations which no longer exist. */
+export const DELETED_CONVERSATIONS_KEY = "deleted";
+
+/** US dollars per million tokens. Thinking tokens are billed as output. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface UsageSettings {
+  prices: PriceTable;
+  /** Estimated spend per calendar month that triggers a warning; unset means no budget. */
+  monthlyBudget?: number;
+}
+
+// Published paid-tier prices for prompts up to 200k tokens, at the time of writing.
+export const DEFAULT_PRICES: PriceTable = {
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+};
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = { prices: DEFAULT_PRICES };
+
+export function saveUsageSettings(uid: string, settings: UsageSettings): void {
+  try {
+    localStorage.setItem(storageKey(uid), JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save usage settings:", e);
+  }
+}
+
+export function loadUsageSettings(uid: string): UsageSettings {
+  try {
+    const stored = localStorage.getItem(storageKey(uid));
+    if (!stored) return DEFAULT_USAGE_SETTINGS;
+    const parsed: UsageSettings = JSON.parse(stored);
+    // Models added since the table was saved get their default price.
+    return { ...parsed, prices: { ...DEFAULT_PRICES, ...parsed.prices } };
+  } catch (e) {
+    console.error("Failed to load usage settings:", e);
+    return DEFAULT_USAGE_SETTINGS;
+  }
+}
+
+export function clearUsageSettings(uid: string): void {
+  try {
+    localStorage.removeItem(storageKey(uid));
+  } catch (e) {
+    console.error("Failed to clear usage settings:", e);
+  }
+}
+
+/** Hands `fromUid`'s usage settings to `toUid`, unless `toUid` already has its own. */
+export function moveUsageSettings(fromUid: string, toUid: string): void {
+  try {
+    const stored = localStorage.getItem(storageKey(fromUid));
+    if (stored && !localStorage.getItem(storageKey(toUid))) localStorage.setItem(storageKey(toUid), stored);
+    localStorage.removeItem(storageKey(fromUid));
+  } catch (e) {
+    console.error("Failed to move usage settings:", e);
+  }
+}
+
+const saveUsageLog = (uid: string, log: UsageLogEntry[]): void => {
+  try {
+    localStorage.setItem(logStorageKey(uid), JSON.stringify(log));
+  } catch (e) {
+    console.error("Failed to save usage log:", e);
+  }
+};
+
+const readStoredLog = (uid: string): UsageLogEntry[] | null => {
+  const stored = localStorage.getItem(logStorageKey(uid));
+  return stored ? JSON.parse(stored) : null;
+};
+
+/** Replies from before the log existed kept their usage on the message only. */
+const logFromReplies = (conversations: Conversation[]): UsageLogEntry[] =>
+  conversations.flatMap(conversation => conversation.messages.flatMap(msg => msg.usage
+    ? [{ ...msg.usage, id: msg.id, kind: "reply" as const, conversationId: conversation.id, createdAt: msg.createdAt }]
+    : []));
+
+/** The user's usage log, built from `conversations`' replies the first time it is loaded. */
+export function loadUsageLog(uid: string, conversations: Conversation[]): UsageLogEntry[] {
+  try {
+    const stored = readStoredLog(uid);
+    if (stored) return stored;
+  } catch (e) {
+    console.error("Failed to load usage log:", e);
+    return [];
+  }
+  const log = logFromReplies(conversations);
+  saveUsageLog(uid, log);
+  return log;
+}
+
+/** Appends one reply's or summary's usage and returns the whole log. */
+export function recordUsage(uid: string, entry: UsageLogEntry): UsageLogEntry[] {
+  let log: UsageLogEntry[] = [];
+  try {
+    log = readStoredLog(uid) ?? [];
+  } catch (e) {
+    console.error("Failed to load usage log:", e);
+  }
+  const next = [...log, entry];
+  saveUsageLog(uid, next);
+  return next;
+}
+
+export function clearUsageLog(uid: string): void {
+  try {
+    localStorage.removeItem(logStorageKey(uid));
+  } catch (e) {
+    console.error("Failed to clear usage log:", e);
+  }
+}
+
+/**
+ * Adds `fromUid`'s log to `toUid`'s, skipping entries it already has (e.g. replies
+ * `toUid`'s log was just built from), then removes it.
+ */
+export function moveUsageLog(fromUid: string, toUid: string, toConversations: Conversation[]): void {
+  try {
+    const moved = readStoredLog(fromUid);
+    if (moved) {
+      const log = loadUsageLog(toUid, toConversations);
+      const known = new Set(log.map(entry => entry.id));
+      saveUsageLog(toUid, [...log, ...moved.filter(entry => !known.has(entry.id))]);
+    }
+  } catch (e) {
+    console.error("Failed to move usage log:", e);
+  }
+  clearUsageLog(fromUid);
+}
+
+/** Estimated cost in dollars; models missing from the table count as free. */
+export function estimateCost(usage: MessageUsage, prices: PriceTable): number {
+  const price = prices[usage.model];
+  if (!price) return 0;
+  return (usage.promptTokens * price.input + (usage.responseTokens + usage.thinkingTokens) * price.output) / 1_000_000;
+}
+
+export interface UsageTotals {
+  key: string;
+  label: string;
+  /** Replies and summaries. */
+  requests: number;
+  promptTokens: number;
+  responseTokens: number;
+  thinkingTokens: number;
+  cost: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  /** Newest day first. */
+  byDay: UsageTotals[];
+  /** Most expensive first, as are models. */
+  byConversation: UsageTotals[];
+  byModel: UsageTotals[];
+}
+
+const emptyTotals = (key: string, label: string): UsageTotals =>
+  ({ key, label, requests: 0, promptTokens: 0, responseTokens: 0, thinkingTokens: 0, cost: 0 });
+
+const addUsage = (totals: UsageTotals, usage: MessageUsage, cost: number) => {
+  totals.requests += 1;
+  totals.promptTokens += usage.promptTokens;
+  totals.responseTokens += usage.responseTokens;
+  totals.thinkingTokens += usage.thinkingTokens;
+  totals.cost += cost;
+};
+
+/** Local calendar day, e.g. "2025-03-09", which also sorts chronologically. */
+export const dayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+};
+
+export const startOfMonth = (now = Date.now()): number => {
+  const date = new Date(now);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+const modelLabel = (id: string) => AVAILABLE_MODELS.find(model => model.id === id)?.label ?? id;
+
+/**
+ * Totals the log entries created at or after `since`. `conversations` only supplies
+ * titles; entries for deleted ones are grouped under `DELETED_CONVERSATIONS_KEY`.
+ */
+export function summarizeUsage(log: UsageLogEntry[], conversations: Conversation[], prices: PriceTable, since = 0): UsageSummary {
+  const total = emptyTotals("total", "Total");
+  const days = new Map<string, UsageTotals>();
+  const byConversation = new Map<string, UsageTotals>();
+  const models = new Map<string, UsageTotals>();
+  const bucket = (map: Map<string, UsageTotals>, key: string, label: string) => {
+    let totals = map.get(key);
+    if (!totals) map.set(key, totals = emptyTotals(key, label));
+    return totals;
+  };
+
+  const titles = new Map(conversations.map(conversation => [conversation.id, conversation.title]));
+
+  for (const entry of log) {
+    if (entry.createdAt < since) continue;
+    const cost = estimateCost(entry, prices);
+    const day = dayKey(entry.createdAt);
+    const title = titles.get(entry.conversationId);
+    addUsage(total, entry, cost);
+    addUsage(bucket(days, day, day), entry, cost);
+    addUsage(title === undefined
+      ? bucket(byConversation, DELETED_CONVERSATIONS_KEY, "Deleted conversations")
+      : bucket(byConversation, entry.conversationId, title), entry, cost);
+    addUsage(bucket(models, entry.model, modelLabel(entry.model)), entry, cost);
+  }
+
+  const byCost = (a: UsageTotals, b: UsageTotals) => b.cost - a.cost || b.promptTokens - a.promptTokens;
+  return {
+    total,
+    byDay: [...days.values()].sort((a, b) => b.key.localeCompare(a.key)),
+    byConversation: [...byConversation.values()].sort(byCost),
+    byModel: [...models.values()].sort(byCost),
+  };
+}
+
+/** Estimated spend so far this calendar month. */
+export const monthToDateCost = (log: UsageLogEntry[], prices: PriceTable, now = Date.now()): number =>
+  log.reduce((total, entry) => (entry.createdAt >= startOfMonth(now) ? total + estimateCost(entry, prices) : total), 0);
+
+export const formatCost = (dollars: number): string =>
+  dollars > 0 && dollars < 0.01 ? "< $0.01" : `$${dollars.toFixed(2)}`;
@@ -1,6 +1,122 @@
 
 export interface ChatMessage {
+  id: string;
+  /** The message this one answers or follows; `null` for the first message. */
+  parentId: string | null;
+  createdAt: number;
   role: 'user' | 'model';
   text: string;
+  /** Legacy inline image URL; files are now stored in IndexedDB and listed in `attachments`. */
   imageUrl?: string;
-}
\ No newline at end of file
+  attachments?: AttachmentRef[];
+  /** Tools the model ran while producing this reply, in order. */
+  toolCalls?: ToolCallRecord[];
+  /** Why a reply ended, kept only when it ended early (anything but `STOP`). */
+  finishReason?: string;
+  safetyRatings?: SafetyRating[];
+  /** Tokens spent producing this reply, from the model's usage metadata. */
+  usage?: MessageUsage;
+}
+
+/** Summed over every request behind a reply, including tool rounds. */
+export interface MessageUsage {
+  model: string;
+  promptTokens: number;
+  responseTokens: number;
+  thinkingTokens: number;
+}
+
+/** How likely a reply or prompt is to fall in a harm category, as judged by the model's filters. */
+export interface SafetyRating {
+  category: string;
+  probability: string;
+  blocked?: boolean;
+}
+
+export type ToolCallStatus = 'awaiting-approval' | 'running' | 'done' | 'denied' | 'error';
+
+/** One tool invocation; see `services/tools.ts`. */
+export interface ToolCallRecord {
+  id: string;
+  /** The model's own id for the call, echoed back with the result when it gave one. */
+  callId?: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: ToolCallStatus;
+  /** What was sent back to the model, including `{ error }` for failed or denied calls. */
+  result?: Record<string, unknown>;
+  /** Calls sharing a round were requested together and answered in one message. */
+  round: number;
+}
+
+export type AttachmentKind = 'image' | 'pdf' | 'audio' | 'text';
+
+/** Describes a file stored in IndexedDB (see `services/attachmentStore.ts`). */
+export interface AttachmentRef {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  kind: AttachmentKind;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  pinned?: boolean;
+  /** Set once the user renames it, so the auto-generated title stops tracking the first prompt. */
+  renamed?: boolean;
+  /** Every message on every branch; see `services/messageTree.ts`. */
+  messages: ChatMessage[];
+  /** Last message of the branch currently shown. */
+  currentLeafId: string | null;
+  settings?: ChatSettings;
+  /** Rolling summaries that stand in for older turns when building the model's context. */
+  summaries?: ContextSummary[];
+}
+
+/**
+ * Replaces every message from the root of a branch down to `throughMessageId` in the
+ * context sent to the model. The messages themselves stay in the conversation.
+ */
+export interface ContextSummary {
+  id: string;
+  throughMessageId: string;
+  text: string;
+  createdAt: number;
+  /** Set once the user has changed the generated text. */
+  edited?: boolean;
+}
+
+/** Per-conversation generation options passed through `createChat`. */
+export interface ChatSettings {
+  model: string;
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  /** Tokens the model may spend thinking; 0 disables thinking, -1 lets the model decide. */
+  thinkingBudget?: number;
+  personaId?: string;
+  /** Context size that triggers summarising older turns; see `services/contextManager.ts`. */
+  summarizeAtTokens?: number;
+  /** Names of the tools the model may call in this conversation. */
+  enabledTools?: string[];
+}
+
+/** A named system instruction the user can pick per conversation. */
+export interface Persona {
+  id: string;
+  name: string;
+  systemInstruction: string;
+}
+
+/** A reusable prompt. `{{name}}` placeholders in `body` are filled in each time it is used. */
+export interface PromptTemplate {
+  id: string;
+  /** Typed after `/` in the chat input to use the template. */
+  command: string;
+  title: string;
+  body: string;
+}
@@ -4,9 +4,19 @@ import { defineConfig, loadEnv } from 'vite';
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      // GEMINI_API_KEY is read only by the proxy server and must never be inlined here.
+      // Without a key the client falls back to the offline mock provider.
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.CHAT_PROVIDER': JSON.stringify(env.CHAT_PROVIDER || (env.GEMINI_API_KEY ? 'gemini' : 'mock')),
+        'process.env.CHAT_PROXY_URL': JSON.stringify(env.CHAT_PROXY_URL),
+        'process.env.MOCK_MODE': JSON.stringify(env.MOCK_MODE),
+        'process.env.MOCK_LATENCY_MS': JSON.stringify(env.MOCK_LATENCY_MS),
+        'process.env.MOCK_FAIL_EVERY': JSON.stringify(env.MOCK_FAIL_EVERY)
+      },
+      server: {
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 8787}`,
+        }
       },
       resolve: {
         alias: {